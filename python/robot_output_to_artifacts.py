@@ -5,6 +5,7 @@ from __future__ import annotations
 
 import argparse
 import json
+import os
 import re
 from datetime import datetime
 from pathlib import Path
@@ -17,9 +18,28 @@ DOC_KEYWORDS = {
     "Doc Web Step",
     "Doc Web Click Step",
     "Doc Web Drag Step",
+    "Doc Web Type Step",
+    "Doc Web Select Step",
+    "Doc Web Hover Step",
+    "Doc Web Scroll Step",
+    "Doc Web Upload Step",
+    "Doc Web Check Step",
+    "Doc Web Frame Step",
+    "Doc Web Window Step",
     "Doc Desktop Step",
 }
 
+EXPECTATION_KEYWORD = "Step Expectation Passed"
+
+TRY_BRANCHES = {"TRY": "try", "EXCEPT": "catch", "FINALLY": "finally"}
+
+RETRY_VARIABLE = "${retry_attempt}"
+
+SECRET_ENV_PREFIX = "SCENARIO_SECRET_"
+
+# Artifact fields built from scenario text, the only places a secret can land.
+SECRET_TEXT_FIELDS = {"title", "description", "text", "check"}
+
 
 def parse_args() -> argparse.Namespace:
     parser = argparse.ArgumentParser()
@@ -29,6 +49,7 @@ def parse_args() -> argparse.Namespace:
     parser.add_argument("--suite-id")
     parser.add_argument("--video-path")
     parser.add_argument("--manifest-path")
+    parser.add_argument("--secret-mask", required=True)
     return parser.parse_args()
 
 
@@ -58,15 +79,21 @@ def parse_time_ms(value: str | None) -> int | None:
 
 
 class DocStepVisitor(ResultVisitor):
-    def __init__(self, output_dir: Path):
+    def __init__(self, output_dir: Path, lane: str | None = None):
         self.output_dir = output_dir
+        self.lane = lane
         self.steps: list[dict[str, Any]] = []
         self.counter = 0
 
     def end_keyword(self, keyword):  # type: ignore[override]
         status = getattr(keyword, "status", "")
         kwname = getattr(keyword, "kwname", "")
-        if status != "PASS" or kwname not in DOC_KEYWORDS:
+        if status != "PASS" or in_failed_retry_attempt(keyword):
+            return
+        if kwname == EXPECTATION_KEYWORD:
+            self.add_expectation(list(keyword.args))
+            return
+        if kwname not in DOC_KEYWORDS:
             return
 
         self.counter += 1
@@ -94,14 +121,84 @@ class DocStepVisitor(ResultVisitor):
         if end_ms is not None:
             step["endedAtMs"] = end_ms
 
+        if self.lane:
+            step["lane"] = self.lane
+
+        branch = find_try_branch(keyword)
+        if branch:
+            step["branch"] = branch
+
         metadata = extract_docmeta(keyword)
         if metadata:
             step.update(metadata)
 
         self.steps.append(step)
 
+    def add_expectation(self, args: list[str]) -> None:
+        if len(args) < 2:
+            return
+        for step in reversed(self.steps):
+            if step["id"] == args[0]:
+                step.setdefault("expectations", []).append({"check": args[1], "passed": True})
+                step["verified"] = True
+                return
+
+
+def find_try_branch(keyword) -> str | None:
+    """Return the nearest scenario try branch, skipping the test-level TRY/FINALLY and retry loops."""
+    node = getattr(keyword, "parent", None)
+    while node is not None:
+        parent = getattr(node, "parent", None)
+        if getattr(parent, "type", "") == "TRY/EXCEPT ROOT":
+            if getattr(parent.parent, "type", "") == "TEST":
+                return None
+            if not is_retry_try(parent):
+                return TRY_BRANCHES.get(getattr(node, "type", ""))
+        node = parent
+    return None
+
+
+def in_failed_retry_attempt(keyword) -> bool:
+    """Keywords from a retry attempt that failed (or was cut short) are not the step's result."""
+    node = getattr(keyword, "parent", None)
+    while node is not None:
+        parent = getattr(node, "parent", None)
+        if (
+            getattr(node, "type", "") == "TRY"
+            and getattr(parent, "type", "") == "TRY/EXCEPT ROOT"
+            and is_retry_try(parent)
+            and getattr(node, "status", "") != "PASS"
+        ):
+            return True
+        node = parent
+    return False
+
+
+def is_retry_try(root) -> bool:
+    """Step `retry` policies generate `FOR ${retry_attempt}` + TRY; that TRY is not a scenario try."""
+    iteration = getattr(root, "parent", None)
+    loop = getattr(iteration, "parent", None)
+    if getattr(iteration, "type", "") != "ITERATION" or getattr(loop, "type", "") != "FOR":
+        return False
+    variables = getattr(loop, "assign", None) or getattr(loop, "variables", ())
+    return RETRY_VARIABLE in variables
+
+
+def collect_parallel_steps(robot_dir: Path, output_dir: Path) -> list[dict[str, Any]]:
+    """Read the branch output.xml files written by `Run Parallel Branches`."""
+    steps: list[dict[str, Any]] = []
+    for branch_xml in sorted((robot_dir / "parallel").glob("*.xml")):
+        result = ExecutionResult(str(branch_xml))
+        lane = result.suite.metadata.get("lane") or branch_xml.stem
+        visitor = DocStepVisitor(output_dir, lane)
+        result.visit(visitor)
+        steps.extend(visitor.steps)
+    return steps
+
 
 def extract_docmeta(keyword) -> dict[str, Any]:
+    """Merge every DOCMETA payload of the step (e.g. the annotation and the capture origin)."""
+    metadata: dict[str, Any] = {}
     for text in iter_docmeta_messages(keyword):
         payload = text[len("DOCMETA:") :].strip()
         if not payload:
@@ -111,8 +208,8 @@ def extract_docmeta(keyword) -> dict[str, Any]:
         except json.JSONDecodeError:
             continue
         if isinstance(parsed, dict):
-            return parsed
-    return {}
+            metadata.update(parsed)
+    return metadata
 
 
 def iter_docmeta_messages(node):
@@ -126,6 +223,50 @@ def iter_docmeta_messages(node):
         yield from iter_docmeta_messages(child)
 
 
+def merge_step_metadata(
+    manifest_steps: list[dict[str, Any]], visitor_steps: list[dict[str, Any]]
+) -> list[dict[str, Any]]:
+    """Add what output.xml recorded (retries, matched candidate, expectations, branch) to the manifest steps by id."""
+    recorded: dict[str, list[dict[str, Any]]] = {}
+    for step in visitor_steps:
+        recorded.setdefault(step["id"], []).append(step)
+    merged = []
+    for step in manifest_steps:
+        # Repeated ids (loops) pair up in execution order.
+        matches = recorded.get(step.get("id"), [])
+        extra = matches.pop(0) if matches else {}
+        merged.append({**extra, **step})
+    return merged
+
+
+def redact_secrets(value: Any, mask: str) -> Any:
+    """Mask secret variable values (and their `%{SCENARIO_SECRET_*}` references) in scenario text fields."""
+    secrets = sorted(
+        (text for name, text in os.environ.items() if name.startswith(SECRET_ENV_PREFIX) and text),
+        key=len,
+        reverse=True,
+    )
+    reference = re.compile(r"%\{" + SECRET_ENV_PREFIX + r"[A-Z0-9_]+\}")
+
+    def redact_text(text: str) -> str:
+        text = reference.sub(mask, text)
+        for secret in secrets:
+            text = text.replace(secret, mask)
+        return text
+
+    def redact(node: Any) -> Any:
+        if isinstance(node, list):
+            return [redact(item) for item in node]
+        if isinstance(node, dict):
+            return {
+                key: redact_text(item) if key in SECRET_TEXT_FIELDS and isinstance(item, str) else redact(item)
+                for key, item in node.items()
+            }
+        return node
+
+    return redact(value)
+
+
 def main() -> int:
     args = parse_args()
 
@@ -144,10 +285,12 @@ def main() -> int:
 
     if manifest_path.exists():
         manifest = json.loads(manifest_path.read_text(encoding="utf-8"))
+        visitor = DocStepVisitor(output_dir)
+        result.visit(visitor)
         artifacts: dict[str, Any] = {
             "scenarioId": scenario_id,
             "title": suite_name,
-            "steps": manifest.get("steps", []),
+            "steps": merge_step_metadata(manifest.get("steps", []), visitor.steps),
             "videoPath": manifest.get("videoPath"),
             "rawVideoPath": manifest.get("rawVideoPath"),
             "annotationsApplied": True,
@@ -156,10 +299,16 @@ def main() -> int:
         visitor = DocStepVisitor(output_dir)
         result.visit(visitor)
 
+        steps = visitor.steps
+        parallel_steps = collect_parallel_steps(output_xml.parent, output_dir)
+        if parallel_steps:
+            # Branch steps overlap the main suite in time; order by start time.
+            steps = sorted(steps + parallel_steps, key=lambda step: step.get("startedAtMs", 0))
+
         artifacts = {
             "scenarioId": scenario_id,
             "title": suite_name,
-            "steps": visitor.steps,
+            "steps": steps,
         }
 
     if args.video_path and Path(args.video_path).exists() and not artifacts.get("rawVideoPath"):
@@ -167,7 +316,7 @@ def main() -> int:
 
     artifacts_json.parent.mkdir(parents=True, exist_ok=True)
     artifacts_json.write_text(
-        json.dumps(artifacts, ensure_ascii=False, indent=2),
+        json.dumps(redact_secrets(artifacts, args.secret_mask), ensure_ascii=False, indent=2),
         encoding="utf-8",
     )
     return 0
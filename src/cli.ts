@@ -1,10 +1,24 @@
 #!/usr/bin/env node
 
 import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { runScenarioCommand } from "./index.js";
+import {
+  explainScenarioVariables,
+  formatDiagnostics,
+  formatSelectorReport,
+  formatVariableExplanation,
+  loadVariableFiles,
+  normalizeScenario,
+  runScenarioCommand,
+  selectorReportCommand,
+  validateScenarioCommand,
+} from "./index.js";
+import { parseScenarioSource } from "./scenarioSource.js";
+import type { DiagnosticsFormat } from "./scenarioValidation.js";
+import type { ControlFlowMode } from "./scenarioToRobot.js";
 
 type ParsedArgs = {
   scenarioPath?: string;
@@ -13,6 +27,13 @@ type ParsedArgs = {
   recordVideo?: boolean;
   profile?: string;
   assetBaseUrl?: string;
+  format?: DiagnosticsFormat;
+  failOnLoopLimit?: boolean;
+  controlFlow?: ControlFlowMode;
+  artifactDirs?: string[];
+  envFile?: string;
+  variablesFile?: string;
+  explainVars?: boolean;
   variables: Record<string, string>;
 };
 
@@ -45,6 +66,9 @@ async function main(): Promise<void> {
     if (!options.scenarioPath) {
       throw new Error("--scenario is required");
     }
+    if (options.explainVars) {
+      await writeVariableExplanation(options.scenarioPath, options);
+    }
 
     const result = await runScenarioCommand({
       scenarioPath: options.scenarioPath,
@@ -53,16 +77,89 @@ async function main(): Promise<void> {
       recordVideo: options.recordVideo,
       profile: options.profile,
       variables: options.variables,
+      envFile: options.envFile,
+      variablesFile: options.variablesFile,
       assetBaseUrl: options.assetBaseUrl,
+      failOnLoopLimit: options.failOnLoopLimit,
+      controlFlow: options.controlFlow,
     });
+    for (const warning of result.warnings) {
+      process.stderr.write(`warning: ${warning.message}\n`);
+    }
     process.stdout.write(`${JSON.stringify(result)}\n`);
     return;
   }
 
+  if (command === "validate") {
+    const options = parseArgs(args.slice(1));
+    if (!options.scenarioPath) {
+      throw new Error("--scenario is required");
+    }
+
+    const result = await validateScenarioCommand({
+      scenarioPath: options.scenarioPath,
+      profile: options.profile,
+      variables: options.variables,
+      envFile: options.envFile,
+      variablesFile: options.variablesFile,
+      failOnLoopLimit: options.failOnLoopLimit,
+      controlFlow: options.controlFlow,
+    });
+    process.stdout.write(formatDiagnostics(result, options.format ?? "text"));
+    if (options.explainVars) {
+      try {
+        await writeVariableExplanation(options.scenarioPath, options);
+      } catch (error) {
+        process.stderr.write(
+          `cannot explain variables: ${error instanceof Error ? error.message : String(error)}\n`,
+        );
+      }
+    }
+    if (!result.valid) {
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === "selector-report") {
+    const options = parseArgs(args.slice(1));
+    const report = await selectorReportCommand({
+      artifactDirs: options.artifactDirs ?? [],
+    });
+    process.stdout.write(
+      formatSelectorReport(report, options.format ?? "text"),
+    );
+    return;
+  }
+
   printUsage();
   process.exit(1);
 }
 
+/**
+ * Prints each variable's final value and source to stderr. The scenario is
+ * only normalized, so the explanation also covers scenarios that fail
+ * validation.
+ */
+async function writeVariableExplanation(
+  scenarioPath: string,
+  options: ParsedArgs,
+): Promise<void> {
+  const loadOptions = {
+    profile: options.profile,
+    ...(await loadVariableFiles(options)),
+  };
+  const path = resolve(scenarioPath);
+  const source = parseScenarioSource(await readFile(path, "utf8"), path);
+  const scenario = normalizeScenario(
+    source.data as Record<string, unknown>,
+    path,
+  );
+  process.stderr.write(
+    formatVariableExplanation(explainScenarioVariables(scenario, loadOptions)),
+  );
+}
+
 export function parseArgs(args: string[]): ParsedArgs {
   const parsed: ParsedArgs = { variables: {} };
 
@@ -87,6 +184,35 @@ export function parseArgs(args: string[]): ParsedArgs {
     } else if (arg === "--asset-base-url") {
       parsed.assetBaseUrl = args[i + 1];
       i += 1;
+    } else if (arg === "--fail-on-loop-limit") {
+      parsed.failOnLoopLimit = parseBooleanArg(args[i + 1]);
+      i += 1;
+    } else if (arg === "--control-flow") {
+      parsed.controlFlow = parseControlFlowArg(args[i + 1]);
+      i += 1;
+    } else if (arg === "--format") {
+      parsed.format = parseFormatArg(args[i + 1]);
+      i += 1;
+    } else if (arg === "--artifacts") {
+      if (!args[i + 1]) {
+        throw new Error("Invalid --artifacts value: undefined");
+      }
+      parsed.artifactDirs = [...(parsed.artifactDirs ?? []), args[i + 1]];
+      i += 1;
+    } else if (arg === "--env-file") {
+      if (!args[i + 1]) {
+        throw new Error("Invalid --env-file value: undefined");
+      }
+      parsed.envFile = args[i + 1];
+      i += 1;
+    } else if (arg === "--vars-file") {
+      if (!args[i + 1]) {
+        throw new Error("Invalid --vars-file value: undefined");
+      }
+      parsed.variablesFile = args[i + 1];
+      i += 1;
+    } else if (arg === "--explain-vars") {
+      parsed.explainVars = true;
     } else if (arg === "--var") {
       const [key, value] = parseVariableArg(args[i + 1]);
       parsed.variables[key] = value;
@@ -106,23 +232,49 @@ function printUsage(): void {
       "",
       "Commands:",
       "  run-scenario    Run an automation scenario",
+      "  validate        Validate a scenario without running it",
+      "  selector-report Summarize matched target candidates, waits and retries across runs",
       "",
       "Options:",
       "  -h, --help      Show this help message",
       "  -V, --version   Show version number",
       "",
       "run-scenario options:",
-      "  --scenario <path>        Path to the scenario JSON file (required)",
+      "  --scenario <path>        Path to the scenario JSON/YAML file (required)",
       "  --output <dir>           Output directory for artifacts",
       "  --markdown <path>        Path for the markdown output",
       "  --record-video <bool>    Whether to record video (true|false)",
       "  --profile <name>         Profile name to use",
       "  --asset-base-url <url>   Base URL prefix for assets in generated markdown",
       "  --var <key=value>        Variable override (can be repeated)",
+      "  --env-file <path>        .env file setting variables by id or runtime.env name",
+      "  --vars-file <path>       JSON/YAML map of variable values; --var entries win",
+      "  --explain-vars           Print each variable's final value and source to stderr",
+      "  --fail-on-loop-limit <bool>  Fail when a while loop hits max_iterations (true|false)",
+      "  --control-flow <mode>    unroll (default) or native Robot IF/FOR/WHILE blocks",
+      "",
+      "validate options:",
+      "  --scenario <path>        Path to the scenario JSON/YAML file (required)",
+      "  --format <text|json>     Diagnostics output format (default: text)",
+      "  --profile <name>         Profile name to use",
+      "  --var <key=value>        Variable override (can be repeated)",
+      "  --env-file <path>        .env file setting variables by id or runtime.env name",
+      "  --vars-file <path>       JSON/YAML map of variable values; --var entries win",
+      "  --explain-vars           Print each variable's final value and source to stderr",
+      "  --fail-on-loop-limit <bool>  Report while loops hitting max_iterations as errors (true|false)",
+      "  --control-flow <mode>    unroll (default) or native Robot IF/FOR/WHILE blocks",
+      "",
+      "selector-report options:",
+      "  --artifacts <dir>        Artifact directory containing steps.json (required, can be repeated)",
+      "  --format <text|json>     Report output format (default: text)",
       "",
       "Examples:",
       "  automation-scenario run-scenario --scenario ./tests/example.json --output ./out",
       "  automation-scenario run-scenario --scenario ./tests/example.json --profile ci --var env=prod",
+      "  automation-scenario run-scenario --scenario ./tests/example.json --env-file .env --explain-vars",
+      "  automation-scenario run-scenario --scenario ./tests/example.json --vars-file ./matrix.yaml",
+      "  automation-scenario validate --scenario ./tests/example.json --format json",
+      "  automation-scenario selector-report --artifacts ./out/run-1 --artifacts ./out/run-2",
     ].join("\n") + "\n",
   );
 }
@@ -138,6 +290,24 @@ export function parseBooleanArg(value: string | undefined): boolean {
   throw new Error(`Invalid boolean value: ${value}`);
 }
 
+export function parseFormatArg(value: string | undefined): DiagnosticsFormat {
+  if (value === "text" || value === "json") {
+    return value;
+  }
+
+  throw new Error(`Invalid format value: ${value}`);
+}
+
+export function parseControlFlowArg(
+  value: string | undefined,
+): ControlFlowMode {
+  if (value === "unroll" || value === "native") {
+    return value;
+  }
+
+  throw new Error(`Invalid control flow value: ${value}`);
+}
+
 export function parseVariableArg(value: string | undefined): [string, string] {
   if (!value) {
     throw new Error("Invalid --var value: undefined");
@@ -0,0 +1,809 @@
+export type ExpressionNode =
+  | { type: "literal"; value: string | number | boolean | null }
+  | { type: "reference"; path: string; bare: boolean }
+  | { type: "array"; items: ExpressionNode[] }
+  | { type: "object"; entries: Array<[string, ExpressionNode]> }
+  | { type: "unary"; operator: "!" | "-"; operand: ExpressionNode }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "logical";
+      operator: "&&" | "||";
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { type: "call"; name: ExpressionFunction; args: ExpressionNode[] };
+
+export type BinaryOperator =
+  | "=="
+  | "!="
+  | ">"
+  | "<"
+  | ">="
+  | "<="
+  | "in"
+  | "contains"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+export type ExpressionFunction = "len" | "lower" | "startsWith" | "matches";
+
+type Token =
+  | { type: "number"; value: number; column: number }
+  | { type: "string"; value: string; column: number }
+  | { type: "reference"; value: string; column: number }
+  | { type: "word"; value: string; column: number }
+  | { type: "text"; value: string; column: number }
+  | { type: "symbol"; value: string; column: number }
+  | { type: "end"; value: ""; column: number };
+
+const FUNCTION_ARITY: Record<ExpressionFunction, number> = {
+  len: 1,
+  lower: 1,
+  startsWith: 2,
+  matches: 2,
+};
+
+const COMPARISON_OPERATORS = new Set(["==", "!=", ">", "<", ">=", "<="]);
+const WORD_OPERATORS = new Set(["in", "contains"]);
+const SYMBOLS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  ">=",
+  "<=",
+  ">",
+  "<",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ":",
+];
+
+/**
+ * Parses a control `when`/`expression`. Supports `&&`, `||`, `!`,
+ * comparisons, `in`/`contains`, arithmetic, parentheses, array/object
+ * literals, `${path}` references and the built-ins `len`, `lower`,
+ * `startsWith` and `matches`. Unquoted words that are not variables
+ * evaluate to their own text, so `${mode} == launch` and
+ * `${url} contains https://x.com` keep working.
+ */
+export function parseControlExpression(text: string): ExpressionNode {
+  const parser = createParser(text);
+  const node = parser.parseExpression();
+  parser.expectEnd();
+  return node;
+}
+
+/**
+ * Parses a `for_each` items expression: a single expression or a
+ * comma-separated list of expressions (`a, b, c`).
+ */
+export function parseItemsExpression(text: string): ExpressionNode[] {
+  const parser = createParser(text);
+  const items = [parser.parseExpression()];
+  while (parser.accept(",")) {
+    items.push(parser.parseExpression());
+  }
+  parser.expectEnd();
+  return items;
+}
+
+export function evaluateExpression(
+  node: ExpressionNode,
+  values: Record<string, unknown>,
+): unknown {
+  switch (node.type) {
+    case "literal":
+      return typeof node.value === "string"
+        ? interpolateReferences(node.value, values)
+        : node.value;
+    case "reference": {
+      const value = getPathValue(values, node.path);
+      if (value !== undefined) {
+        return value;
+      }
+      return node.bare ? node.path : null;
+    }
+    case "array":
+      return node.items.map((item) => evaluateExpression(item, values));
+    case "object":
+      return Object.fromEntries(
+        node.entries.map(([key, value]) => [
+          key,
+          evaluateExpression(value, values),
+        ]),
+      );
+    case "unary": {
+      const operand = evaluateExpression(node.operand, values);
+      return node.operator === "!"
+        ? !isTruthy(operand)
+        : -requireNumber(operand, "-");
+    }
+    case "logical": {
+      const left = isTruthy(evaluateExpression(node.left, values));
+      if (node.operator === "&&") {
+        return left && isTruthy(evaluateExpression(node.right, values));
+      }
+      return left || isTruthy(evaluateExpression(node.right, values));
+    }
+    case "binary":
+      return evaluateBinary(
+        node.operator,
+        evaluateExpression(node.left, values),
+        evaluateExpression(node.right, values),
+      );
+    case "call":
+      return evaluateCall(
+        node.name,
+        node.args.map((arg) => evaluateExpression(arg, values)),
+      );
+  }
+}
+
+/**
+ * Substitutes known `${name}` placeholders in expression text. Outside
+ * quotes the value becomes a literal (`"prod"`, `3`, `["a","b"]`) so values
+ * with spaces or operators cannot change the expression structure; inside
+ * quotes it is spliced into the string. Unknown placeholders stay intact
+ * for evaluation-time lookup (loop variables, template parameters); dotted
+ * paths (`${matrix.browsers}`) read into object values.
+ */
+export function interpolateExpression(
+  text: string,
+  values: Record<string, unknown>,
+): string {
+  let output = "";
+  let quote: string | undefined;
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (quote && char === "\\") {
+      output += text.slice(index, index + 2);
+      index += 2;
+      continue;
+    }
+    const placeholder = text
+      .slice(index)
+      .match(/^\$\{([a-zA-Z_][a-zA-Z0-9_]*)((?:\.[a-zA-Z0-9_-]+)*)\}/);
+    if (placeholder && placeholder[1] in values) {
+      const value = getPathValue(values, placeholder[1] + placeholder[2]);
+      output += quote
+        ? escapeQuoted(stringifyValue(value), quote)
+        : toExpressionLiteral(value);
+      index += placeholder[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      if (quote === undefined) {
+        quote = char;
+      } else if (quote === char) {
+        quote = undefined;
+      }
+    }
+    output += char;
+    index += 1;
+  }
+  return output;
+}
+
+/**
+ * Translates a parsed expression to Python for Robot Framework `IF`/`WHILE`
+ * conditions and `Evaluate`. `reference` renders `${path}` and bare-word
+ * references, e.g. as `$item['name']` for runtime loop variables.
+ */
+export function toPythonExpression(
+  node: ExpressionNode,
+  reference: (path: string, bare: boolean) => string,
+): string {
+  const translate = (child: ExpressionNode): string =>
+    toPythonExpression(child, reference);
+  switch (node.type) {
+    case "literal":
+      return toPythonLiteral(node.value);
+    case "reference":
+      return reference(node.path, node.bare);
+    case "array":
+      return `[${node.items.map(translate).join(", ")}]`;
+    case "object":
+      return `{${node.entries
+        .map(([key, value]) => `${toPythonLiteral(key)}: ${translate(value)}`)
+        .join(", ")}}`;
+    case "unary":
+      return node.operator === "!"
+        ? `not (${translate(node.operand)})`
+        : `-(${translate(node.operand)})`;
+    case "logical":
+      return `(${translate(node.left)}) ${node.operator === "&&" ? "and" : "or"} (${translate(node.right)})`;
+    case "binary":
+      if (node.operator === "contains") {
+        return `(${translate(node.right)}) in (${translate(node.left)})`;
+      }
+      return `(${translate(node.left)}) ${node.operator} (${translate(node.right)})`;
+    case "call": {
+      const [first, second] = node.args.map(translate);
+      switch (node.name) {
+        case "len":
+          return `len(${first})`;
+        case "lower":
+          return `str(${first}).lower()`;
+        case "startsWith":
+          return `str(${first}).startswith(str(${second}))`;
+        case "matches":
+          return `re.search(str(${second}), str(${first})) is not None`;
+      }
+    }
+  }
+}
+
+/**
+ * Python literal for a JSON-compatible value. Runs of spaces are written as
+ * `\x20` escapes so the literal survives Robot's two-space cell separator.
+ */
+export function toPythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "None";
+  }
+  if (typeof value === "boolean") {
+    return value ? "True" : "False";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "None";
+  }
+  if (typeof value === "string") {
+    return JSON.stringify(value).replaceAll(/ {2,}/g, (spaces) =>
+      "\\x20".repeat(spaces.length),
+    );
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => toPythonLiteral(item)).join(", ")}]`;
+  }
+  if (typeof value === "object") {
+    return `{${Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => `${toPythonLiteral(key)}: ${toPythonLiteral(item)}`)
+      .join(", ")}}`;
+  }
+  return toPythonLiteral(String(value));
+}
+
+export function getPathValue(
+  source: Record<string, unknown>,
+  path: string,
+): unknown {
+  const normalized = path.trim();
+  if (normalized === "") {
+    return undefined;
+  }
+  const segments = normalized.split(".").filter((segment) => segment !== "");
+  let current: unknown = source;
+  for (const segment of segments) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    const record = current as Record<string, unknown>;
+    if (!(segment in record)) {
+      return undefined;
+    }
+    current = record[segment];
+  }
+  return current;
+}
+
+export function isTruthy(value: unknown): boolean {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return value !== 0;
+  }
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    return normalized !== "" && normalized !== "false" && normalized !== "0";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value).length > 0;
+  }
+  return Boolean(value);
+}
+
+function createParser(text: string) {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = (offset = 0): Token =>
+    tokens[Math.min(position + offset, tokens.length - 1)];
+
+  const next = (): Token => {
+    const token = peek();
+    position += 1;
+    return token;
+  };
+
+  const isSymbol = (token: Token, value: string): boolean =>
+    token.type === "symbol" && token.value === value;
+
+  const accept = (value: string): boolean => {
+    if (isSymbol(peek(), value)) {
+      position += 1;
+      return true;
+    }
+    return false;
+  };
+
+  const expect = (value: string): void => {
+    if (!accept(value)) {
+      throw unexpected(peek(), `expected "${value}"`);
+    }
+  };
+
+  const expectEnd = (): void => {
+    if (peek().type !== "end") {
+      throw unexpected(peek());
+    }
+  };
+
+  const parseExpression = (): ExpressionNode => parseOr();
+
+  const parseOr = (): ExpressionNode => {
+    let left = parseAnd();
+    while (accept("||")) {
+      left = { type: "logical", operator: "||", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseComparison();
+    while (accept("&&")) {
+      left = {
+        type: "logical",
+        operator: "&&",
+        left,
+        right: parseComparison(),
+      };
+    }
+    return left;
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    let left = parseAdditive();
+    for (;;) {
+      const token = peek();
+      const isOperator =
+        (token.type === "symbol" && COMPARISON_OPERATORS.has(token.value)) ||
+        (token.type === "word" && WORD_OPERATORS.has(token.value));
+      if (!isOperator) {
+        return left;
+      }
+      position += 1;
+      left = {
+        type: "binary",
+        operator: token.value as BinaryOperator,
+        left,
+        right: parseAdditive(),
+      };
+    }
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let left = parseMultiplicative();
+    while (isSymbol(peek(), "+") || isSymbol(peek(), "-")) {
+      const operator = next().value as "+" | "-";
+      left = { type: "binary", operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let left = parseUnary();
+    while (
+      isSymbol(peek(), "*") ||
+      isSymbol(peek(), "/") ||
+      isSymbol(peek(), "%")
+    ) {
+      const operator = next().value as "*" | "/" | "%";
+      left = { type: "binary", operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (accept("!")) {
+      return { type: "unary", operator: "!", operand: parseUnary() };
+    }
+    if (accept("-")) {
+      return { type: "unary", operator: "-", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseList = (close: string): ExpressionNode[] => {
+    const items: ExpressionNode[] = [];
+    if (accept(close)) {
+      return items;
+    }
+    do {
+      items.push(parseExpression());
+    } while (accept(","));
+    expect(close);
+    return items;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    if (token.type === "number" || token.type === "string") {
+      return { type: "literal", value: token.value };
+    }
+    if (token.type === "reference") {
+      return { type: "reference", path: token.value, bare: false };
+    }
+    if (token.type === "symbol") {
+      if (token.value === "(") {
+        const inner = parseExpression();
+        expect(")");
+        return inner;
+      }
+      if (token.value === "[") {
+        return { type: "array", items: parseList("]") };
+      }
+      if (token.value === "{") {
+        return parseObject();
+      }
+      throw unexpected(token);
+    }
+    if (token.type === "text") {
+      return parseWords(token.value);
+    }
+    if (token.type === "word" && !WORD_OPERATORS.has(token.value)) {
+      return parseWord(token.value);
+    }
+    throw unexpected(token);
+  };
+
+  const parseObject = (): ExpressionNode => {
+    const entries: Array<[string, ExpressionNode]> = [];
+    if (accept("}")) {
+      return { type: "object", entries };
+    }
+    do {
+      const key = next();
+      if (key.type !== "string" && key.type !== "word") {
+        throw unexpected(key, "expected object key");
+      }
+      expect(":");
+      entries.push([key.value, parseExpression()]);
+    } while (accept(","));
+    expect("}");
+    return { type: "object", entries };
+  };
+
+  const parseWord = (word: string): ExpressionNode => {
+    if (word === "true" || word === "false") {
+      return { type: "literal", value: word === "true" };
+    }
+    if (word === "null") {
+      return { type: "literal", value: null };
+    }
+    if (accept("(")) {
+      if (!(word in FUNCTION_ARITY)) {
+        throw new Error(`Unknown function: ${word}`);
+      }
+      const name = word as ExpressionFunction;
+      const args = parseList(")");
+      if (args.length !== FUNCTION_ARITY[name]) {
+        throw new Error(
+          `${name}() expects ${FUNCTION_ARITY[name]} argument(s), got ${args.length}`,
+        );
+      }
+      return { type: "call", name, args };
+    }
+    return parseWords(word, true);
+  };
+
+  /** Consecutive unquoted words form one text value (`Main Camera`). */
+  const parseWords = (first: string, reference = false): ExpressionNode => {
+    const words = [first];
+    for (
+      let token = peek();
+      token.type === "text" ||
+      (token.type === "word" && !WORD_OPERATORS.has(token.value));
+      token = peek()
+    ) {
+      words.push(token.value);
+      position += 1;
+    }
+    return words.length === 1 && reference
+      ? { type: "reference", path: first, bare: true }
+      : { type: "literal", value: words.join(" ") };
+  };
+
+  return { parseExpression, accept, expectEnd };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const column = index + 1;
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = "";
+      index += 1;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === "\\" && index + 1 < text.length) {
+          value += unescapeChar(text[index + 1]);
+          index += 2;
+          continue;
+        }
+        value += text[index];
+        index += 1;
+      }
+      if (index >= text.length) {
+        throw new Error(`Unterminated string at column ${column}`);
+      }
+      index += 1;
+      tokens.push({ type: "string", value, column });
+      continue;
+    }
+    if (text.startsWith("${", index)) {
+      const end = text.indexOf("}", index);
+      if (end === -1) {
+        throw new Error(`Unterminated \${ at column ${column}`);
+      }
+      tokens.push({
+        type: "reference",
+        value: text.slice(index + 2, end).trim(),
+        column,
+      });
+      index = end + 1;
+      continue;
+    }
+    const operand = readBareOperand(text, index);
+    if (operand) {
+      if (/^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(operand)) {
+        tokens.push({ type: "number", value: Number(operand), column });
+      } else if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(operand)) {
+        tokens.push({ type: "word", value: operand, column });
+      } else {
+        tokens.push({ type: "text", value: operand, column });
+      }
+      index += operand.length;
+      continue;
+    }
+    const symbol = SYMBOLS.find((candidate) =>
+      text.startsWith(candidate, index),
+    );
+    if (!symbol) {
+      throw new Error(`Unexpected character "${char}" at column ${column}`);
+    }
+    tokens.push({ type: "symbol", value: symbol, column });
+    index += symbol.length;
+  }
+  tokens.push({ type: "end", value: "", column: text.length + 1 });
+  return tokens;
+}
+
+/**
+ * Unquoted operand starting at `index`: a letter or digit followed by
+ * everything up to whitespace, a bracket, a comma, a quote, `$`, a
+ * comparison or logical operator, or a `:` that ends the text. Operands
+ * that are not a plain number or word (`web-admin`, `1.2.3`,
+ * `https://x.com`) are text, as in the original evaluator, so arithmetic
+ * on bare operands needs spaces (`3 - 1`).
+ */
+function readBareOperand(text: string, index: number): string | undefined {
+  if (!/[A-Za-z0-9_]/.test(text[index])) {
+    return undefined;
+  }
+  let end = index + 1;
+  while (end < text.length) {
+    const rest = text.slice(end);
+    if (
+      /^[\s()[\]{},'"$]/.test(rest) ||
+      /^(?:==|!=|>=|<=|>|<|&&|\|\|)/.test(rest) ||
+      /^:(?:\s|$)/.test(rest)
+    ) {
+      break;
+    }
+    end += 1;
+  }
+  return text.slice(index, end);
+}
+
+function unexpected(token: Token, detail?: string): Error {
+  const found =
+    token.type === "end" ? "end of expression" : `"${String(token.value)}"`;
+  return new Error(
+    `Unexpected ${found} at column ${token.column}${detail ? ` (${detail})` : ""}`,
+  );
+}
+
+function unescapeChar(char: string): string {
+  if (char === "n") {
+    return "\n";
+  }
+  if (char === "t") {
+    return "\t";
+  }
+  return char;
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  left: unknown,
+  right: unknown,
+): unknown {
+  switch (operator) {
+    case "==":
+      return compareOperands(left, right) === 0;
+    case "!=":
+      return compareOperands(left, right) !== 0;
+    case ">":
+      return compareOperands(left, right) > 0;
+    case "<":
+      return compareOperands(left, right) < 0;
+    case ">=":
+      return compareOperands(left, right) >= 0;
+    case "<=":
+      return compareOperands(left, right) <= 0;
+    case "in":
+      return containsValue(right, left);
+    case "contains":
+      return containsValue(left, right);
+    case "+": {
+      const leftNumber = toFiniteNumber(left);
+      const rightNumber = toFiniteNumber(right);
+      if (leftNumber !== undefined && rightNumber !== undefined) {
+        return leftNumber + rightNumber;
+      }
+      return stringifyValue(left) + stringifyValue(right);
+    }
+    case "-":
+      return requireNumber(left, "-") - requireNumber(right, "-");
+    case "*":
+      return requireNumber(left, "*") * requireNumber(right, "*");
+    case "/":
+    case "%": {
+      const divisor = requireNumber(right, operator);
+      if (divisor === 0) {
+        throw new Error(`Division by zero in "${operator}"`);
+      }
+      const dividend = requireNumber(left, operator);
+      return operator === "/" ? dividend / divisor : dividend % divisor;
+    }
+  }
+}
+
+function evaluateCall(name: ExpressionFunction, args: unknown[]): unknown {
+  const [first, second] = args;
+  switch (name) {
+    case "len":
+      if (Array.isArray(first) || typeof first === "string") {
+        return first.length;
+      }
+      if (first && typeof first === "object") {
+        return Object.keys(first).length;
+      }
+      return first === null || first === undefined
+        ? 0
+        : stringifyValue(first).length;
+    case "lower":
+      return stringifyValue(first).toLowerCase();
+    case "startsWith":
+      return stringifyValue(first).startsWith(stringifyValue(second));
+    case "matches": {
+      const pattern = stringifyValue(second);
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `Invalid matches() pattern ${JSON.stringify(pattern)}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      return regex.test(stringifyValue(first));
+    }
+  }
+}
+
+function containsValue(container: unknown, value: unknown): boolean {
+  if (Array.isArray(container)) {
+    return container.some((item) => compareOperands(item, value) === 0);
+  }
+  if (typeof container === "string") {
+    return container.includes(stringifyValue(value));
+  }
+  if (container && typeof container === "object") {
+    return stringifyValue(value) in container;
+  }
+  return false;
+}
+
+function compareOperands(left: unknown, right: unknown): number {
+  const leftNumber = toFiniteNumber(left);
+  const rightNumber = toFiniteNumber(right);
+  if (leftNumber !== undefined && rightNumber !== undefined) {
+    return leftNumber === rightNumber ? 0 : leftNumber > rightNumber ? 1 : -1;
+  }
+  const leftText = String(left ?? "");
+  const rightText = String(right ?? "");
+  return leftText === rightText ? 0 : leftText > rightText ? 1 : -1;
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+function requireNumber(value: unknown, operator: string): number {
+  const number = toFiniteNumber(value);
+  if (number === undefined) {
+    throw new Error(
+      `"${operator}" expects numbers, got ${JSON.stringify(value) ?? "undefined"}`,
+    );
+  }
+  return number;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function toExpressionLiteral(value: unknown): string {
+  if (value === undefined) {
+    return "null";
+  }
+  return JSON.stringify(value);
+}
+
+function escapeQuoted(text: string, quote: string): string {
+  return text.replaceAll("\\", "\\\\").replaceAll(quote, `\\${quote}`);
+}
+
+function interpolateReferences(
+  text: string,
+  values: Record<string, unknown>,
+): string {
+  if (!text.includes("${")) {
+    return text;
+  }
+  return text.replaceAll(/\$\{([a-zA-Z_][a-zA-Z0-9_.-]*)\}/g, (_, key) =>
+    stringifyValue(getPathValue(values, String(key))),
+  );
+}
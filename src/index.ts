@@ -2,10 +2,57 @@ export { runRobotCommand, runScenarioCommand } from "./robotRunner.js";
 export {
   type AutomationScenario,
   type LoadScenarioOptions,
+  type ScenarioDriver,
+  type ScenarioImport,
+  type ScenarioIssue,
+  type ScenarioIssueCode,
   type ScenarioStep,
+  type ScenarioTemplate,
   applyScenarioVariables,
+  collectScenarioIssues,
+  explainScenarioVariables,
   loadScenarioFile,
   normalizeScenario,
+  resolveScenarioSecrets,
+  secretEnvironmentName,
   validateScenario,
 } from "./scenarioSpec.js";
-export { generateRobotSuiteFromScenario } from "./scenarioToRobot.js";
+export {
+  type VariableExplanation,
+  type VariableSource,
+  coerceVariableValue,
+  formatVariableExplanation,
+  isSecretVariable,
+  loadEnvFile,
+  loadVariableFiles,
+  loadVariablesFile,
+  parseEnvFile,
+} from "./scenarioVariables.js";
+export {
+  type ScenarioSchemaIssue,
+  collectScenarioSchemaIssues,
+  scenarioSchema,
+} from "./scenarioSchema.js";
+export {
+  type ControlFlowMode,
+  type GenerateRobotSuiteOptions,
+  type RobotBranchSuite,
+  type RobotSuiteResult,
+  type RobotSuiteWarning,
+  generateRobotSuite,
+  generateRobotSuiteFromScenario,
+} from "./scenarioToRobot.js";
+export {
+  type SelectorReport,
+  type SelectorReportCommandOptions,
+  type SelectorReportStep,
+  buildSelectorReport,
+  formatSelectorReport,
+  selectorReportCommand,
+} from "./selectorReport.js";
+export {
+  type ScenarioDiagnostic,
+  type ValidateScenarioResult,
+  formatDiagnostics,
+  validateScenarioCommand,
+} from "./scenarioValidation.js";
@@ -1,4 +1,4 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { dirname, join, parse, resolve } from "node:path";
 import { spawn, type ChildProcess } from "node:child_process";
 import { fileURLToPath } from "node:url";
@@ -16,8 +16,13 @@ import type {
   StepArtifact,
   VideoTimelineEvent,
 } from "./types.js";
-import { loadScenarioFile } from "./scenarioSpec.js";
-import { generateRobotSuiteFromScenario } from "./scenarioToRobot.js";
+import { loadScenarioFile, resolveScenarioSecrets } from "./scenarioSpec.js";
+import { loadVariableFiles, SECRET_MASK } from "./scenarioVariables.js";
+import {
+  type ControlFlowMode,
+  type RobotSuiteWarning,
+  generateRobotSuite,
+} from "./scenarioToRobot.js";
 
 type RendererAnnotationSpec = Parameters<typeof annotateImage>[1];
 type RendererVideoTimelineEvent = Parameters<typeof annotateVideo>[2][number];
@@ -31,6 +36,8 @@ export type RunRobotCommandOptions = {
   recordVideo?: boolean;
   assetBaseUrl?: string;
   animationConfig?: AnimationConfig;
+  /** Extra environment for Robot and the converter, e.g. `SCENARIO_SECRET_*` values. */
+  environment?: Record<string, string>;
 };
 
 export type RunScenarioCommandOptions = {
@@ -40,7 +47,13 @@ export type RunScenarioCommandOptions = {
   recordVideo?: boolean;
   profile?: string;
   variables?: Record<string, unknown>;
+  /** `.env` file whose entries set variables by id or `runtime.env` name. */
+  envFile?: string;
+  /** JSON or YAML map of variable values; `variables` entries win. */
+  variablesFile?: string;
   assetBaseUrl?: string;
+  failOnLoopLimit?: boolean;
+  controlFlow?: ControlFlowMode;
 };
 
 export async function runScenarioCommand(
@@ -50,12 +63,15 @@ export async function runScenarioCommand(
   steps: number;
   videoPath: string | null;
   outputDir: string;
+  warnings: RobotSuiteWarning[];
 }> {
   const scenarioPath = resolve(options.scenarioPath);
-  const scenario = await loadScenarioFile(scenarioPath, {
+  const loadOptions = {
     profile: options.profile,
-    variables: options.variables,
-  });
+    ...(await loadVariableFiles(options)),
+  };
+  const scenario = await loadScenarioFile(scenarioPath, loadOptions);
+  const environment = resolveScenarioSecrets(scenario, loadOptions);
   const outputDir = resolve(
     options.outputDir ?? join("artifacts", scenario.scenario_id),
   );
@@ -65,22 +81,31 @@ export async function runScenarioCommand(
     `${scenario.scenario_id}.robot`,
   );
 
+  const { suite, warnings, branchSuites } = generateRobotSuite(scenario, {
+    failOnLoopLimit: options.failOnLoopLimit,
+    controlFlow: options.controlFlow,
+  });
   await mkdir(generatedSuiteDir, { recursive: true });
-  await writeFile(
-    generatedSuitePath,
-    generateRobotSuiteFromScenario(scenario),
-    "utf8",
-  );
+  await writeFile(generatedSuitePath, suite, "utf8");
+  for (const branch of branchSuites) {
+    await writeFile(
+      join(generatedSuiteDir, branch.fileName),
+      branch.suite,
+      "utf8",
+    );
+  }
 
   const animationConfig = parseAnimationConfig(scenario.outputs);
-  return runRobotCommand({
+  const result = await runRobotCommand({
     suitePath: generatedSuitePath,
     outputDir,
     markdownPath: options.markdownPath,
     recordVideo: options.recordVideo,
     assetBaseUrl: options.assetBaseUrl,
     animationConfig,
+    environment,
   });
+  return { ...result, warnings };
 }
 
 export async function runRobotCommand(
@@ -102,6 +127,8 @@ export async function runRobotCommand(
   const videoDir = join(outputDir, "video");
   const screenshotsDir = join(outputDir, "screenshots");
   await mkdir(robotDir, { recursive: true });
+  // Parallel branch outputs are merged by the converter; drop stale ones.
+  await rm(join(robotDir, "parallel"), { recursive: true, force: true });
   await mkdir(videoDir, { recursive: true });
   await mkdir(screenshotsDir, { recursive: true });
 
@@ -112,7 +139,11 @@ export async function runRobotCommand(
     : undefined;
 
   try {
-    await runCommand("python", buildRobotCommandArgs(robotDir, suitePath));
+    await runCommand(
+      "python",
+      buildRobotCommandArgs(robotDir, suitePath),
+      options.environment,
+    );
   } finally {
     if (recording) {
       await stopScreenRecording(recording);
@@ -137,7 +168,7 @@ export async function runRobotCommand(
     videoPath: recordVideo ? rawVideoPath : undefined,
   });
 
-  await runCommand("python", converterArgs);
+  await runCommand("python", converterArgs, options.environment);
 
   const artifacts = JSON.parse(
     await readFile(artifactsPath, "utf8"),
@@ -199,7 +230,9 @@ async function annotateStepImages(steps: StepArtifact[]): Promise<void> {
         continue;
       }
 
-      const rendererAnnotation = toRendererAnnotation(annotation);
+      const rendererAnnotation = toRendererAnnotation(
+        toImageAnnotation(step, annotation),
+      );
       if (!rendererAnnotation) {
         continue;
       }
@@ -355,6 +388,31 @@ export function isDrawableAnnotation(
   return false;
 }
 
+/**
+ * Shifts an annotation into the step image when `step.capture` cropped it.
+ * Timeline events keep the original coordinates because the video is not cropped.
+ */
+export function toImageAnnotation<T extends AnnotationSpec>(
+  step: StepArtifact,
+  annotation: T,
+): T {
+  const origin = step.capture?.origin;
+  if (!origin || !hasPoint(origin) || (origin.x === 0 && origin.y === 0)) {
+    return annotation;
+  }
+  const shift = (point: unknown) =>
+    hasPoint(point)
+      ? { ...point, x: point.x - origin.x, y: point.y - origin.y }
+      : point;
+  const shifted: Record<string, unknown> = { ...annotation };
+  for (const key of ["box", "point", "from", "to"]) {
+    if (key in shifted) {
+      shifted[key] = shift(shifted[key]);
+    }
+  }
+  return shifted as T;
+}
+
 function stepAnnotations(step: StepArtifact): AnnotationSpec[] {
   const annotations: AnnotationSpec[] = [];
   if (Array.isArray(step.annotations)) {
@@ -478,8 +536,11 @@ function toRendererStepArtifact(step: StepArtifact): RendererStepArtifact {
     imagePath: step.imagePath,
   };
 
-  if (step.description) {
-    rendererStep.description = step.description;
+  const description = step.verified
+    ? [step.description, "✓ verified"].filter(Boolean).join("\n\n")
+    : step.description;
+  if (description) {
+    rendererStep.description = description;
   }
   if (typeof step.startedAtMs === "number") {
     rendererStep.startedAtMs = step.startedAtMs;
@@ -492,7 +553,9 @@ function toRendererStepArtifact(step: StepArtifact): RendererStepArtifact {
     isDrawableAnnotation(annotation),
   );
   if (firstDrawable) {
-    const rendererAnnotation = toRendererAnnotation(firstDrawable);
+    const rendererAnnotation = toRendererAnnotation(
+      toImageAnnotation(step, firstDrawable),
+    );
     if (rendererAnnotation) {
       rendererStep.annotation = rendererAnnotation;
     }
@@ -602,6 +665,8 @@ export function buildConverterCommandArgs(options: {
     options.artifactsPath,
     "--suite-id",
     options.suiteId,
+    "--secret-mask",
+    SECRET_MASK,
   ];
 
   if (options.videoPath) {
@@ -628,8 +693,16 @@ async function stopScreenRecording(recording: ChildProcess): Promise<void> {
   await waitForExit(recording);
 }
 
-async function runCommand(command: string, args: string[]): Promise<void> {
-  const child = spawn(command, args, { stdio: "inherit", shell: false });
+async function runCommand(
+  command: string,
+  args: string[],
+  environment?: Record<string, string>,
+): Promise<void> {
+  const child = spawn(command, args, {
+    stdio: "inherit",
+    shell: false,
+    env: environment ? { ...process.env, ...environment } : undefined,
+  });
   await waitForExit(child, `${command} failed`);
 }
 
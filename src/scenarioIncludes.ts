@@ -0,0 +1,424 @@
+import { readFileSync } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+
+import { parseScenarioSource } from "./scenarioSource.js";
+
+type RawRecord = Record<string, unknown>;
+
+type IncludeFrame = {
+  document: RawRecord;
+  sourcePath: string;
+  imports: Map<string, string>;
+  stack: string[];
+  origins?: Map<string, IncludedStepOrigin>;
+  /** Root variables plus those declared by included files, shared by frames. */
+  variables: RawRecord[];
+  /** Pointer to the root-file include step; unset for the root file itself. */
+  includePath?: string;
+};
+
+/** Where a step spliced in by an include was written. */
+export type IncludedStepOrigin = {
+  /** File holding the step. */
+  sourcePath: string;
+  /** JSON pointer to the step inside that file. */
+  pointer: string;
+  /** JSON pointer to the `include` step in the root file that pulled it in. */
+  includePath: string;
+};
+
+/**
+ * Files that contributed included steps, each with the root-file `include`
+ * step that first pulled it in. The root file itself is not listed.
+ */
+export function listIncludedFiles(
+  origins: Map<string, IncludedStepOrigin>,
+  rootPath: string,
+): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const { sourcePath, includePath } of origins.values()) {
+    if (sourcePath !== resolve(rootPath) && !files.has(sourcePath)) {
+      files.set(sourcePath, includePath);
+    }
+  }
+  return files;
+}
+
+const NESTED_STEP_KEYS = ["steps", "catch_steps", "finally_steps"] as const;
+
+/**
+ * Replaces every `kind: "include"` step with a group holding the referenced
+ * steps. Paths resolve relative to the file that declares the include, and
+ * included step ids are prefixed with the include step id. Variables
+ * declared by included files are appended to `variables` unless the root
+ * file or the include step's bindings already cover them. `origins`
+ * receives the source file and pointer of every included step, keyed by its
+ * pointer in the expanded tree.
+ */
+export function resolveScenarioIncludes(
+  input: RawRecord,
+  sourcePath: string,
+  origins?: Map<string, IncludedStepOrigin>,
+): RawRecord {
+  const absolutePath = resolve(sourcePath);
+  if (!containsInclude(input.steps)) {
+    return input;
+  }
+  const frame: IncludeFrame = {
+    document: input,
+    sourcePath: absolutePath,
+    imports: readImports(input, absolutePath),
+    stack: [includeKey(absolutePath, undefined)],
+    origins,
+    variables: Array.isArray(input.variables) ? [...input.variables] : [],
+  };
+  const steps = resolveStepList(input.steps, frame, "/steps", "/steps");
+  return { ...input, steps, variables: frame.variables };
+}
+
+function containsInclude(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => containsInclude(item));
+  }
+  if (!isRecord(value)) {
+    return false;
+  }
+  if (value.kind === "include") {
+    return true;
+  }
+  return (
+    NESTED_STEP_KEYS.some((key) => containsInclude(value[key])) ||
+    containsInclude(value.branches)
+  );
+}
+
+/**
+ * `pointer` locates the list in the expanded tree, `sourcePointer` in the
+ * file of the current frame.
+ */
+function resolveStepList(
+  steps: unknown,
+  frame: IncludeFrame,
+  pointer: string,
+  sourcePointer: string,
+): unknown {
+  if (!Array.isArray(steps)) {
+    return steps;
+  }
+  return steps.map((step, index) => {
+    if (frame.origins && frame.includePath !== undefined) {
+      frame.origins.set(`${pointer}/${index}`, {
+        sourcePath: frame.sourcePath,
+        pointer: `${sourcePointer}/${index}`,
+        includePath: frame.includePath,
+      });
+    }
+    return resolveStep(
+      step,
+      frame,
+      `${pointer}/${index}`,
+      `${sourcePointer}/${index}`,
+    );
+  });
+}
+
+function resolveStep(
+  step: unknown,
+  frame: IncludeFrame,
+  pointer: string,
+  sourcePointer: string,
+): unknown {
+  if (!isRecord(step)) {
+    return step;
+  }
+  if (step.kind === "include") {
+    return resolveIncludeStep(step, frame, pointer);
+  }
+
+  const resolved: RawRecord = { ...step };
+  for (const key of NESTED_STEP_KEYS) {
+    if (key in step) {
+      resolved[key] = resolveStepList(
+        step[key],
+        frame,
+        `${pointer}/${key}`,
+        `${sourcePointer}/${key}`,
+      );
+    }
+  }
+  if (Array.isArray(step.branches)) {
+    resolved.branches = step.branches.map((branch, index) =>
+      isRecord(branch)
+        ? {
+            ...branch,
+            steps: resolveStepList(
+              branch.steps,
+              frame,
+              `${pointer}/branches/${index}/steps`,
+              `${sourcePointer}/branches/${index}/steps`,
+            ),
+          }
+        : branch,
+    );
+  }
+  return resolved;
+}
+
+function resolveIncludeStep(
+  step: RawRecord,
+  frame: IncludeFrame,
+  pointer: string,
+): RawRecord {
+  const id = String(step.id ?? "include");
+  const group = typeof step.group === "string" ? step.group : undefined;
+  const includePath = resolveIncludePath(step, id, frame);
+  if (
+    group === undefined &&
+    typeof step.import !== "string" &&
+    (typeof step.from !== "string" || step.from.trim() === "")
+  ) {
+    throw new Error(`include requires from, import or group: ${id}`);
+  }
+
+  const key = includeKey(includePath, group);
+  if (frame.stack.includes(key)) {
+    throw new Error(
+      `Include cycle detected: ${[...frame.stack, key].map((entry) => formatIncludeKey(entry)).join(" -> ")}`,
+    );
+  }
+
+  const document =
+    includePath === frame.sourcePath
+      ? frame.document
+      : loadIncludeDocument(includePath, id);
+  const source = group
+    ? findGroupStep(document.steps, group, "/steps")
+    : { title: document.name, steps: document.steps, pointer: "" };
+  if (!source) {
+    throw new Error(
+      `Include group not found: ${group} in ${basename(includePath)} (${id})`,
+    );
+  }
+  if (!Array.isArray(source.steps) || source.steps.length === 0) {
+    throw new Error(
+      `Included steps are empty: ${formatIncludeKey(key)} (${id})`,
+    );
+  }
+
+  const bindings = isRecord(step.variables) ? step.variables : {};
+  if (document !== frame.document) {
+    declareIncludedVariables(document, bindings, frame.variables);
+  }
+  const childFrame: IncludeFrame = {
+    document,
+    sourcePath: includePath,
+    imports:
+      document === frame.document
+        ? frame.imports
+        : readImports(document, includePath),
+    stack: [...frame.stack, key],
+    origins: frame.origins,
+    variables: frame.variables,
+    includePath: frame.includePath ?? pointer,
+  };
+  const steps = resolveStepList(
+    bindVariables(source.steps, bindings),
+    childFrame,
+    `${pointer}/steps`,
+    `${source.pointer}/steps`,
+  ) as unknown[];
+
+  return {
+    id,
+    title: String(step.title ?? source.title ?? id),
+    description: step.description ?? source.description,
+    kind: "group",
+    steps: prefixStepIds(steps, id),
+  };
+}
+
+function resolveIncludePath(
+  step: RawRecord,
+  id: string,
+  frame: IncludeFrame,
+): string {
+  if (typeof step.import === "string") {
+    const imported = frame.imports.get(step.import);
+    if (!imported) {
+      throw new Error(`Unknown include import: ${step.import} (${id})`);
+    }
+    return imported;
+  }
+  if (typeof step.from === "string" && step.from.trim() !== "") {
+    return resolve(dirname(frame.sourcePath), step.from);
+  }
+  return frame.sourcePath;
+}
+
+function loadIncludeDocument(path: string, id: string): RawRecord {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch {
+    throw new Error(`Include file not found: ${path} (${id})`);
+  }
+  const data = parseScenarioSource(text, path).data;
+  if (!isRecord(data)) {
+    throw new Error(`Include file must contain an object: ${path} (${id})`);
+  }
+  return data;
+}
+
+function readImports(
+  document: RawRecord,
+  sourcePath: string,
+): Map<string, string> {
+  const imports = new Map<string, string>();
+  if (!Array.isArray(document.imports)) {
+    return imports;
+  }
+  for (const entry of document.imports) {
+    if (
+      !isRecord(entry) ||
+      typeof entry.as !== "string" ||
+      typeof entry.from !== "string"
+    ) {
+      throw new Error(
+        `imports entries require "as" and "from": ${basename(sourcePath)}`,
+      );
+    }
+    imports.set(entry.as, resolve(dirname(sourcePath), entry.from));
+  }
+  return imports;
+}
+
+function declareIncludedVariables(
+  document: RawRecord,
+  bindings: RawRecord,
+  variables: RawRecord[],
+): void {
+  if (!Array.isArray(document.variables)) {
+    return;
+  }
+  for (const variable of document.variables) {
+    if (
+      isRecord(variable) &&
+      typeof variable.id === "string" &&
+      !(variable.id in bindings) &&
+      !variables.some(
+        (declared) => isRecord(declared) && declared.id === variable.id,
+      )
+    ) {
+      variables.push(variable);
+    }
+  }
+}
+
+function findGroupStep(
+  steps: unknown,
+  group: string,
+  pointer: string,
+): (RawRecord & { pointer: string }) | undefined {
+  if (!Array.isArray(steps)) {
+    return undefined;
+  }
+  for (const [index, step] of steps.entries()) {
+    if (!isRecord(step)) {
+      continue;
+    }
+    if (step.kind === "group" && step.id === group) {
+      return { ...step, pointer: `${pointer}/${index}` };
+    }
+    const nested = findGroupStep(
+      step.steps,
+      group,
+      `${pointer}/${index}/steps`,
+    );
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Substitutes only the bound `${name}` placeholders so scenario variables
+ * and loop variables in the included steps stay intact for later resolution.
+ */
+function bindVariables(value: unknown, bindings: RawRecord): unknown {
+  if (typeof value === "string") {
+    const exact = value.match(/^\$\{([a-zA-Z_][a-zA-Z0-9_]*)\}$/);
+    if (exact && exact[1] in bindings) {
+      return bindings[exact[1]];
+    }
+    return value.replaceAll(
+      /\$\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g,
+      (placeholder, key: string) => {
+        if (!(key in bindings)) {
+          return placeholder;
+        }
+        const bound = bindings[key];
+        if (bound === null || bound === undefined) {
+          return "";
+        }
+        return typeof bound === "object"
+          ? JSON.stringify(bound)
+          : String(bound);
+      },
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => bindVariables(item, bindings));
+  }
+  if (isRecord(value)) {
+    const result: RawRecord = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = bindVariables(child, bindings);
+    }
+    return result;
+  }
+  return value;
+}
+
+function prefixStepIds(steps: unknown[], prefix: string): unknown[] {
+  return steps.map((step, index) => {
+    if (!isRecord(step)) {
+      return step;
+    }
+    const kind = String(step.kind ?? "action").toLowerCase();
+    const fallbackId =
+      kind === "group" || kind === "control"
+        ? `${kind}-${index + 1}`
+        : `step-${index + 1}`;
+    const prefixed: RawRecord = {
+      ...step,
+      id: `${prefix}-${String(step.id ?? fallbackId)}`,
+    };
+    for (const key of NESTED_STEP_KEYS) {
+      if (Array.isArray(step[key])) {
+        prefixed[key] = prefixStepIds(step[key], prefix);
+      }
+    }
+    if (Array.isArray(step.branches)) {
+      prefixed.branches = step.branches.map((branch) =>
+        isRecord(branch) && Array.isArray(branch.steps)
+          ? { ...branch, steps: prefixStepIds(branch.steps, prefix) }
+          : branch,
+      );
+    }
+    return prefixed;
+  });
+}
+
+function includeKey(path: string, group: string | undefined): string {
+  return `${path}#${group ?? ""}`;
+}
+
+function formatIncludeKey(key: string): string {
+  const [path, group] = key.split("#");
+  return group ? `${basename(path)}#${group}` : basename(path);
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,124 @@
+import { Ajv, type ErrorObject } from "ajv";
+
+import scenarioSchema from "./schema/scenario-v2.schema.json" with { type: "json" };
+import {
+  type ScenarioSource,
+  type SourcePosition,
+  escapePointerSegment,
+  formatSourceLocation,
+} from "./scenarioSource.js";
+
+export type ScenarioSchemaIssueCode =
+  | "unknown_key"
+  | "missing_required_key"
+  | "invalid_type"
+  | "invalid_enum"
+  | "schema_violation";
+
+export type ScenarioSchemaIssue = {
+  path: string;
+  code: ScenarioSchemaIssueCode;
+  message: string;
+  line?: number;
+  column?: number;
+};
+
+const ajv = new Ajv({ allErrors: true, strictTypes: false });
+const validateSchema = ajv.compile(scenarioSchema);
+
+export { scenarioSchema };
+
+export function collectScenarioSchemaIssues(
+  source: ScenarioSource,
+): ScenarioSchemaIssue[] {
+  if (validateSchema(source.data)) {
+    return [];
+  }
+
+  const issues: ScenarioSchemaIssue[] = [];
+  const seen = new Set<string>();
+  for (const error of validateSchema.errors ?? []) {
+    // if/then/else failures are reported again by the nested step schema.
+    if (error.keyword === "if") {
+      continue;
+    }
+    const issue = toSchemaIssue(error);
+    const key = `${issue.path}\u0000${issue.message}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    issues.push(withPosition(issue, source.locate(issue.path)));
+  }
+  return issues;
+}
+
+export function assertScenarioSchema(
+  source: ScenarioSource,
+  sourcePath: string,
+): void {
+  const issues = collectScenarioSchemaIssues(source);
+  if (issues.length === 0) {
+    return;
+  }
+  throw new Error(
+    [
+      `Scenario schema validation failed with ${issues.length} error(s):`,
+      ...issues.map((issue) => {
+        const position =
+          issue.line !== undefined && issue.column !== undefined
+            ? { line: issue.line, column: issue.column }
+            : undefined;
+        return `  ${formatSourceLocation(sourcePath, position)} ${issue.path || "/"}: ${issue.message}`;
+      }),
+    ].join("\n"),
+  );
+}
+
+function toSchemaIssue(error: ErrorObject): ScenarioSchemaIssue {
+  const params = error.params as Record<string, unknown>;
+  if (error.keyword === "additionalProperties") {
+    const key = String(params.additionalProperty);
+    return {
+      path: `${error.instancePath}/${escapePointerSegment(key)}`,
+      code: "unknown_key",
+      message: `unknown key "${key}"`,
+    };
+  }
+  if (error.keyword === "required") {
+    return {
+      path: error.instancePath,
+      code: "missing_required_key",
+      message: `missing required key "${String(params.missingProperty)}"`,
+    };
+  }
+  if (error.keyword === "type") {
+    return {
+      path: error.instancePath,
+      code: "invalid_type",
+      message: `must be ${String(params.type).replaceAll(",", " or ")}`,
+    };
+  }
+  if (error.keyword === "enum" || error.keyword === "const") {
+    const allowed = Array.isArray(params.allowedValues)
+      ? params.allowedValues
+      : [params.allowedValue];
+    return {
+      path: error.instancePath,
+      code: "invalid_enum",
+      message: `must be one of: ${allowed.map((value) => JSON.stringify(value)).join(", ")}`,
+    };
+  }
+  return {
+    path: error.instancePath,
+    code: "schema_violation",
+    message: error.message ?? `failed ${error.keyword} check`,
+  };
+}
+
+function withPosition(
+  issue: ScenarioSchemaIssue,
+  position: SourcePosition | undefined,
+): ScenarioSchemaIssue {
+  return position ? { ...issue, ...position } : issue;
+}
@@ -0,0 +1,255 @@
+import { basename, extname } from "node:path";
+
+import {
+  type Node as YamlNode,
+  LineCounter,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+} from "yaml";
+
+export type SourcePosition = {
+  line: number;
+  column: number;
+};
+
+export type ScenarioSource = {
+  data: unknown;
+  locate(pointer: string): SourcePosition | undefined;
+};
+
+export function parseScenarioSource(
+  text: string,
+  sourcePath: string,
+): ScenarioSource {
+  const extension = extname(sourcePath).toLowerCase();
+  if (extension === ".yaml" || extension === ".yml") {
+    return parseYamlSource(text, sourcePath);
+  }
+  return parseJsonSource(text, sourcePath);
+}
+
+export function formatSourceLocation(
+  sourcePath: string,
+  position: SourcePosition | undefined,
+): string {
+  const name = basename(sourcePath);
+  return position ? `${name}:${position.line}:${position.column}` : name;
+}
+
+function parseJsonSource(text: string, sourcePath: string): ScenarioSource {
+  const lineStarts = computeLineStarts(text);
+  let data: unknown;
+  try {
+    data = JSON.parse(text) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = message.match(/position (\d+)/);
+    const position = offset
+      ? toSourcePosition(lineStarts, Number(offset[1]))
+      : undefined;
+    throw new Error(
+      `Invalid JSON in ${formatSourceLocation(sourcePath, position)}: ${message}`,
+    );
+  }
+
+  const offsets = scanJsonPointerOffsets(text);
+  return {
+    data,
+    locate: (pointer) => {
+      const offset = findNearestOffset(offsets, pointer);
+      return offset === undefined
+        ? undefined
+        : toSourcePosition(lineStarts, offset);
+    },
+  };
+}
+
+function parseYamlSource(text: string, sourcePath: string): ScenarioSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, merge: true });
+  const [firstError] = document.errors;
+  if (firstError) {
+    const [start] = firstError.linePos ?? [];
+    const position = start
+      ? { line: start.line, column: start.col }
+      : undefined;
+    throw new Error(
+      `Invalid YAML in ${formatSourceLocation(sourcePath, position)}: ${firstError.message.split("\n")[0]}`,
+    );
+  }
+
+  const offsets = new Map<string, number>();
+  if (document.contents) {
+    offsets.set("", document.contents.range?.[0] ?? 0);
+    collectYamlPointerOffsets(document.contents, "", offsets);
+  }
+  return {
+    data: document.toJS() as unknown,
+    locate: (pointer) => {
+      const offset = findNearestOffset(offsets, pointer);
+      if (offset === undefined) {
+        return undefined;
+      }
+      const { line, col } = lineCounter.linePos(offset);
+      return { line, column: col };
+    },
+  };
+}
+
+function collectYamlPointerOffsets(
+  node: YamlNode,
+  pointer: string,
+  offsets: Map<string, number>,
+): void {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const keyNode = pair.key as YamlNode | null;
+      const key = isScalar(keyNode) ? String(keyNode.value) : undefined;
+      if (key === undefined || key === "<<") {
+        continue;
+      }
+      const child = `${pointer}/${escapePointerSegment(key)}`;
+      offsets.set(child, keyNode?.range?.[0] ?? 0);
+      if (pair.value) {
+        collectYamlPointerOffsets(pair.value as YamlNode, child, offsets);
+      }
+    }
+    return;
+  }
+  if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const child = `${pointer}/${index}`;
+      const itemNode = item as YamlNode | null;
+      if (!itemNode) {
+        return;
+      }
+      offsets.set(child, itemNode.range?.[0] ?? 0);
+      collectYamlPointerOffsets(itemNode, child, offsets);
+    });
+  }
+}
+
+/**
+ * Values pulled in through YAML aliases/merge keys (or otherwise missing
+ * from the source map) are reported at their nearest located ancestor.
+ */
+function findNearestOffset(
+  offsets: Map<string, number>,
+  pointer: string,
+): number | undefined {
+  let current = pointer;
+  while (!offsets.has(current) && current !== "") {
+    current = current.slice(0, current.lastIndexOf("/"));
+  }
+  return offsets.get(current);
+}
+
+function computeLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "\n") {
+      starts.push(index + 1);
+    }
+  }
+  return starts;
+}
+
+function toSourcePosition(
+  lineStarts: number[],
+  offset: number,
+): SourcePosition {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+export function escapePointerSegment(segment: string): string {
+  return segment.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+/**
+ * Records the offset of every value in already-validated JSON text, keyed by
+ * JSON pointer. Object members point at their key so "unknown key" reports
+ * land on the offending name rather than its value.
+ */
+function scanJsonPointerOffsets(text: string): Map<string, number> {
+  const offsets = new Map<string, number>();
+  let index = 0;
+
+  const skipWhitespace = (): void => {
+    while (/\s/.test(text[index] ?? "")) {
+      index += 1;
+    }
+  };
+
+  const skipSeparator = (): void => {
+    skipWhitespace();
+    if (text[index] === "," || text[index] === ":") {
+      index += 1;
+      skipWhitespace();
+    }
+  };
+
+  const scanString = (): string => {
+    const start = index;
+    index += 1;
+    while (text[index] !== '"') {
+      index += text[index] === "\\" ? 2 : 1;
+    }
+    index += 1;
+    return JSON.parse(text.slice(start, index)) as string;
+  };
+
+  const scanValue = (pointer: string): void => {
+    skipWhitespace();
+    const char = text[index];
+    if (char === "{") {
+      index += 1;
+      skipWhitespace();
+      while (text[index] !== "}") {
+        const keyOffset = index;
+        const child = `${pointer}/${escapePointerSegment(scanString())}`;
+        offsets.set(child, keyOffset);
+        skipSeparator();
+        scanValue(child);
+        skipSeparator();
+      }
+      index += 1;
+      return;
+    }
+    if (char === "[") {
+      index += 1;
+      skipWhitespace();
+      for (let item = 0; text[index] !== "]"; item += 1) {
+        const child = `${pointer}/${item}`;
+        offsets.set(child, index);
+        scanValue(child);
+        skipSeparator();
+      }
+      index += 1;
+      return;
+    }
+    if (char === '"') {
+      scanString();
+      return;
+    }
+    while (index < text.length && !/[\s,\]}]/.test(text[index])) {
+      index += 1;
+    }
+  };
+
+  skipWhitespace();
+  offsets.set("", index);
+  scanValue("");
+  return offsets;
+}
@@ -1,6 +1,28 @@
 import { readFile } from "node:fs/promises";
 import { basename } from "node:path";
 
+import {
+  getPathValue,
+  interpolateExpression,
+  parseControlExpression,
+  parseItemsExpression,
+} from "./controlExpression.js";
+import {
+  type IncludedStepOrigin,
+  listIncludedFiles,
+  resolveScenarioIncludes,
+} from "./scenarioIncludes.js";
+import { assertScenarioSchema } from "./scenarioSchema.js";
+import { escapePointerSegment, parseScenarioSource } from "./scenarioSource.js";
+import {
+  type VariableExplanation,
+  type VariableSource,
+  SECRET_MASK,
+  coerceVariableValue,
+  isSecretVariable,
+  runtimeEnvironmentName,
+} from "./scenarioVariables.js";
+
 export type ScenarioTarget = "unity" | "web" | "desktop" | "hybrid";
 
 export type ScenarioVariable = {
@@ -11,15 +33,25 @@ export type ScenarioVariable = {
   runtime?: Record<string, unknown>;
   required?: boolean;
   default?: unknown;
+  /**
+   * Secret values reach Robot only through `SCENARIO_SECRET_<ID>` environment
+   * variables and are masked in titles, annotations and artifacts;
+   * `type: "secret"` implies it.
+   */
+  secret?: boolean;
   [key: string]: unknown;
 };
 
+/** Automation backend that runs an action step in a `hybrid` scenario. */
+export type ScenarioDriver = "web" | "unity" | "desktop";
+
 export type ScenarioStepAction = {
   id: string;
   title: string;
   description?: string;
   kind: "action";
   action: string;
+  driver?: ScenarioDriver;
   target?: Record<string, unknown>;
   input?: Record<string, unknown>;
   expect?: Record<string, unknown>;
@@ -40,6 +72,9 @@ export type ScenarioStepControl = {
   items_expression?: string;
   item_variable?: string;
   max_iterations?: number;
+  /** `while` only: probed at run time into `${target_exists}` (native control flow). */
+  target?: Record<string, unknown>;
+  driver?: ScenarioDriver;
   branches?: ScenarioControlBranch[];
   steps?: ScenarioStep[];
   catch_steps?: ScenarioStep[];
@@ -61,10 +96,33 @@ export type ScenarioStepGroup = {
   [key: string]: unknown;
 };
 
+export type ScenarioStepUse = {
+  id: string;
+  title: string;
+  description?: string;
+  kind: "use";
+  template: string;
+  with?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
 export type ScenarioStep =
   | ScenarioStepAction
   | ScenarioStepControl
-  | ScenarioStepGroup;
+  | ScenarioStepGroup
+  | ScenarioStepUse;
+
+/**
+ * Parameterized step block invoked by `kind: "use"` steps. `parameters`
+ * names the placeholders supplied through `with`; they are left untouched
+ * when scenario variables are applied.
+ */
+export type ScenarioTemplate = {
+  title: string;
+  description?: string;
+  parameters?: string[];
+  steps: ScenarioStep[];
+};
 
 export type AutomationScenario = {
   schema_version: "2.0.0";
@@ -85,12 +143,41 @@ export type AutomationScenario = {
   recording?: Record<string, unknown>;
   outputs?: Record<string, unknown>;
   extensions?: Record<string, unknown>;
+  imports?: ScenarioImport[];
+  templates?: Record<string, ScenarioTemplate>;
   steps: ScenarioStep[];
 };
 
+/**
+ * Named reference to a scenario or step library file. `kind: "include"`
+ * steps use `import: <as>` to pull steps from it.
+ */
+export type ScenarioImport = {
+  as: string;
+  from: string;
+};
+
 export type LoadScenarioOptions = {
   profile?: string;
   variables?: Record<string, unknown>;
+  /**
+   * Entries from a `.env` file. A key sets the variable with that id or
+   * `runtime.env` name, above profiles and below environment bindings.
+   */
+  envFileVariables?: Record<string, string>;
+  /**
+   * Values from a `--vars-file` map, above environment bindings and below
+   * `variables`; `path` names the file in variable sources.
+   */
+  varsFileVariables?: { path: string; values: Record<string, unknown> };
+  /** Environment read by `runtime.env` bindings (default: `process.env`). */
+  environment?: Record<string, string | undefined>;
+  /**
+   * Validate the raw file against the bundled v2 JSON Schema before
+   * normalization (default: true). Unknown keys, wrong types and bad enum
+   * values are rejected with file line/column positions.
+   */
+  strict?: boolean;
 };
 
 function sanitizeId(value: string): string {
@@ -111,6 +198,20 @@ function sanitizeStepId(value: string): string {
   return normalized || "step";
 }
 
+const SCENARIO_FILE_SUFFIXES = [
+  ".scenario.json",
+  ".scenario.yaml",
+  ".scenario.yml",
+];
+
+function scenarioIdFromPath(sourcePath: string): string {
+  const name = basename(sourcePath);
+  const suffix = SCENARIO_FILE_SUFFIXES.find((candidate) =>
+    name.toLowerCase().endsWith(candidate),
+  );
+  return suffix ? name.slice(0, -suffix.length) : name;
+}
+
 function normalizeTarget(input: unknown): ScenarioTarget {
   const targetRaw = String(input ?? "unity").toLowerCase();
   if (
@@ -136,6 +237,7 @@ function normalizeActionStep(
       typeof step.description === "string" ? step.description : undefined,
     kind: "action",
     action: actionRaw,
+    driver: normalizeDriver(step.driver),
     target:
       step.target && typeof step.target === "object"
         ? (step.target as Record<string, unknown>)
@@ -166,6 +268,13 @@ function normalizeActionStep(
   };
 }
 
+function normalizeDriver(value: unknown): ScenarioDriver | undefined {
+  const driver = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return driver === "web" || driver === "unity" || driver === "desktop"
+    ? driver
+    : undefined;
+}
+
 function normalizeBranch(
   branch: Record<string, unknown>,
   index: number,
@@ -257,12 +366,69 @@ function normalizeStep(
     return normalizeControlStep(step, index);
   }
 
+  if (kind === "use") {
+    return normalizeUseStep(step, index);
+  }
+
   return normalizeActionStep(step, index);
 }
 
+function normalizeUseStep(
+  step: Record<string, unknown>,
+  index: number,
+): ScenarioStepUse {
+  const template = String(step.template ?? "").trim();
+  return {
+    id: sanitizeStepId(String(step.id ?? `use-${index + 1}`)),
+    title: String(step.title ?? (template || `use-${index + 1}`)),
+    description:
+      typeof step.description === "string" ? step.description : undefined,
+    kind: "use",
+    template,
+    with:
+      step.with && typeof step.with === "object"
+        ? (step.with as Record<string, unknown>)
+        : undefined,
+  };
+}
+
+function normalizeTemplates(
+  input: unknown,
+): Record<string, ScenarioTemplate> | undefined {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return undefined;
+  }
+  const templates: Record<string, ScenarioTemplate> = {};
+  for (const [name, value] of Object.entries(
+    input as Record<string, unknown>,
+  )) {
+    const template =
+      value && typeof value === "object"
+        ? (value as Record<string, unknown>)
+        : {};
+    templates[name] = {
+      title: String(template.title ?? name),
+      description:
+        typeof template.description === "string"
+          ? template.description
+          : undefined,
+      parameters: Array.isArray(template.parameters)
+        ? template.parameters.map((parameter) => String(parameter))
+        : undefined,
+      steps: normalizeNestedSteps(template.steps),
+    };
+  }
+  return templates;
+}
+
+/**
+ * `includeOrigins` receives where each step spliced in by an `include` was
+ * written, keyed by its pointer in the normalized scenario.
+ */
 export function normalizeScenario(
   input: Record<string, unknown>,
   sourcePath: string,
+  includeOrigins?: Map<string, IncludedStepOrigin>,
 ): AutomationScenario {
   if (typeof input.schema_version !== "string") {
     throw new Error(
@@ -275,14 +441,15 @@ export function normalizeScenario(
     );
   }
 
-  const steps = Array.isArray(input.steps) ? input.steps : [];
-  const variables = Array.isArray(input.variables) ? input.variables : [];
+  const resolved = resolveScenarioIncludes(input, sourcePath, includeOrigins);
+  const steps = Array.isArray(resolved.steps) ? resolved.steps : [];
+  const variables = Array.isArray(resolved.variables) ? resolved.variables : [];
   const target = normalizeTarget(input.target);
 
   return {
     schema_version: "2.0.0",
     scenario_id: sanitizeId(
-      String(input.scenario_id ?? basename(sourcePath, ".scenario.json")),
+      String(input.scenario_id ?? scenarioIdFromPath(sourcePath)),
     ),
     name: String(input.name ?? "Scenario"),
     description:
@@ -335,6 +502,10 @@ export function normalizeScenario(
       input.extensions && typeof input.extensions === "object"
         ? (input.extensions as Record<string, unknown>)
         : undefined,
+    imports: Array.isArray(input.imports)
+      ? (input.imports as ScenarioImport[])
+      : undefined,
+    templates: normalizeTemplates(input.templates),
     steps: steps
       .filter(
         (step): step is Record<string, unknown> =>
@@ -344,101 +515,393 @@ export function normalizeScenario(
   };
 }
 
+export type ScenarioIssueSeverity = "error" | "warning";
+
+export type ScenarioIssueCode =
+  | "unsupported_schema_version"
+  | "missing_scenario_id"
+  | "missing_name"
+  | "unsupported_target"
+  | "invalid_variables"
+  | "missing_variable_id"
+  | "missing_variable_type"
+  | "duplicate_secret_environment_name"
+  | "missing_steps"
+  | "missing_step_id"
+  | "duplicate_step_id"
+  | "missing_step_title"
+  | "missing_action"
+  | "missing_control"
+  | "missing_branch_when"
+  | "missing_branch_steps"
+  | "for_each_missing_items_expression"
+  | "for_each_missing_item_variable"
+  | "while_missing_expression"
+  | "while_invalid_max_iterations"
+  | "unsupported_control_target"
+  | "empty_group"
+  | "empty_template"
+  | "unknown_template"
+  | "missing_template_parameter"
+  | "invalid_expression";
+
+export type ScenarioIssue = {
+  /** JSON pointer to the offending value, e.g. `/steps/3/branches/0/steps/1/action`. */
+  path: string;
+  severity: ScenarioIssueSeverity;
+  code: ScenarioIssueCode;
+  message: string;
+  /** JSON pointer to the step that owns the issue, when it is step-level. */
+  stepPath?: string;
+  stepId?: string;
+};
+
 export function validateScenario(scenario: AutomationScenario): void {
+  const errors = collectScenarioIssues(scenario).filter(
+    (issue) => issue.severity === "error",
+  );
+  if (errors.length === 0) {
+    return;
+  }
+  throw new Error(
+    [
+      `Scenario validation failed with ${errors.length} error(s):`,
+      ...errors.map((issue) => `  ${issue.path}: ${issue.message}`),
+    ].join("\n"),
+  );
+}
+
+export function collectScenarioIssues(
+  scenario: AutomationScenario,
+): ScenarioIssue[] {
+  const issues: ScenarioIssue[] = [];
+  const error = (
+    path: string,
+    code: ScenarioIssueCode,
+    message: string,
+  ): void => {
+    issues.push({ path, severity: "error", code, message });
+  };
+
   if (scenario.schema_version !== "2.0.0") {
-    throw new Error(`Unsupported schema_version: ${scenario.schema_version}`);
+    error(
+      "/schema_version",
+      "unsupported_schema_version",
+      `Unsupported schema_version: ${scenario.schema_version}`,
+    );
   }
   if (!scenario.scenario_id) {
-    throw new Error("scenario_id is required.");
+    error("/scenario_id", "missing_scenario_id", "scenario_id is required.");
   }
   if (!scenario.name) {
-    throw new Error("name is required.");
+    error("/name", "missing_name", "name is required.");
+  }
+  try {
+    normalizeTarget(scenario.target);
+  } catch (targetError) {
+    error(
+      "/target",
+      "unsupported_target",
+      targetError instanceof Error ? targetError.message : String(targetError),
+    );
   }
-  normalizeTarget(scenario.target);
   if (!Array.isArray(scenario.variables)) {
-    throw new Error("variables must be an array.");
+    error("/variables", "invalid_variables", "variables must be an array.");
+  } else {
+    scenario.variables.forEach((variable, index) => {
+      if (!variable.id || variable.id.trim() === "") {
+        error(
+          `/variables/${index}/id`,
+          "missing_variable_id",
+          "variable id is required.",
+        );
+      }
+      if (!variable.type || variable.type.trim() === "") {
+        error(
+          `/variables/${index}/type`,
+          "missing_variable_type",
+          `variable type is required: ${variable.id}`,
+        );
+      }
+    });
+    const secretIds = new Map<string, string>();
+    scenario.variables.forEach((variable, index) => {
+      if (!variable.id || !isSecretVariable(variable)) {
+        return;
+      }
+      const name = secretEnvironmentName(variable.id);
+      const existing = secretIds.get(name);
+      if (existing !== undefined) {
+        error(
+          `/variables/${index}/id`,
+          "duplicate_secret_environment_name",
+          `secret variables ${existing} and ${variable.id} both map to ${name}.`,
+        );
+      }
+      secretIds.set(name, variable.id);
+    });
   }
   if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
-    throw new Error("steps must contain at least one step.");
+    error("/steps", "missing_steps", "steps must contain at least one step.");
+    return issues;
   }
-  for (const variable of scenario.variables) {
-    if (!variable.id || variable.id.trim() === "") {
-      throw new Error("variable id is required.");
-    }
-    if (!variable.type || variable.type.trim() === "") {
-      throw new Error(`variable type is required: ${variable.id}`);
+
+  const templates = scenario.templates ?? {};
+  for (const [name, template] of Object.entries(templates)) {
+    const templatePath = `/templates/${escapePointerSegment(name)}`;
+    if (template.steps.length === 0) {
+      error(
+        `${templatePath}/steps`,
+        "empty_template",
+        `template must contain steps: ${name}`,
+      );
+      continue;
     }
+    collectStepIssues(
+      template.steps,
+      `${templatePath}/steps`,
+      issues,
+      new Map<string, string>(),
+      templates,
+    );
   }
-  validateSteps(scenario.steps);
+
+  const seenStepIds = new Map<string, string>();
+  collectStepIssues(scenario.steps, "/steps", issues, seenStepIds, templates);
+  return issues;
 }
 
-function validateSteps(steps: ScenarioStep[]): void {
-  for (const step of steps) {
+function collectStepIssues(
+  steps: ScenarioStep[],
+  basePath: string,
+  issues: ScenarioIssue[],
+  seenStepIds: Map<string, string>,
+  templates: Record<string, ScenarioTemplate>,
+): void {
+  steps.forEach((step, index) => {
+    const path = `${basePath}/${index}`;
+    const stepId = step.id || undefined;
+    const error = (
+      code: ScenarioIssueCode,
+      message: string,
+      suffix = "",
+    ): void => {
+      issues.push({
+        path: `${path}${suffix}`,
+        severity: "error",
+        code,
+        message,
+        stepPath: path,
+        stepId,
+      });
+    };
+
     if (!step.id || step.id.trim() === "") {
-      throw new Error("step.id is required.");
+      error("missing_step_id", "step.id is required.", "/id");
+    } else {
+      const firstPath = seenStepIds.get(step.id);
+      if (firstPath !== undefined) {
+        issues.push({
+          path: `${path}/id`,
+          severity: "warning",
+          code: "duplicate_step_id",
+          message: `step.id is already used at ${firstPath}: ${step.id}`,
+          stepPath: path,
+          stepId,
+        });
+      } else {
+        seenStepIds.set(step.id, path);
+      }
     }
     if (!step.title || step.title.trim() === "") {
-      throw new Error(`step.title is required: ${step.id}`);
+      error(
+        "missing_step_title",
+        `step.title is required: ${step.id}`,
+        "/title",
+      );
     }
+
     if (step.kind === "action") {
       if (!step.action || step.action.trim() === "") {
-        throw new Error(`step.action is required: ${step.id}`);
+        error(
+          "missing_action",
+          `step.action is required: ${step.id}`,
+          "/action",
+        );
       }
-      continue;
+      return;
     }
+
     if (step.kind === "control") {
       if (!step.control || step.control.trim() === "") {
-        throw new Error(`step.control is required: ${step.id}`);
-      }
-      if (step.steps && step.steps.length > 0) {
-        validateSteps(step.steps);
+        error(
+          "missing_control",
+          `step.control is required: ${step.id}`,
+          "/control",
+        );
       }
-      if (step.catch_steps && step.catch_steps.length > 0) {
-        validateSteps(step.catch_steps);
-      }
-      if (step.finally_steps && step.finally_steps.length > 0) {
-        validateSteps(step.finally_steps);
+      for (const key of ["steps", "catch_steps", "finally_steps"] as const) {
+        const nested = step[key];
+        if (nested && nested.length > 0) {
+          collectStepIssues(
+            nested,
+            `${path}/${key}`,
+            issues,
+            seenStepIds,
+            templates,
+          );
+        }
       }
-      if (step.branches && step.branches.length > 0) {
-        for (const branch of step.branches) {
-          if (!branch.when || branch.when.trim() === "") {
-            throw new Error(`control branch.when is required: ${step.id}`);
-          }
-          if (!Array.isArray(branch.steps) || branch.steps.length === 0) {
-            throw new Error(`control branch.steps is required: ${step.id}`);
+      step.branches?.forEach((branch, branchIndex) => {
+        const branchPath = `/branches/${branchIndex}`;
+        if (!branch.when || branch.when.trim() === "") {
+          error(
+            "missing_branch_when",
+            `control branch.when is required: ${step.id}`,
+            `${branchPath}/when`,
+          );
+        } else {
+          const parseError = findExpressionError(
+            branch.when,
+            parseControlExpression,
+          );
+          if (parseError) {
+            error(
+              "invalid_expression",
+              `invalid branch.when in ${step.id}: ${parseError}`,
+              `${branchPath}/when`,
+            );
           }
-          validateSteps(branch.steps);
         }
-      }
+        if (!Array.isArray(branch.steps) || branch.steps.length === 0) {
+          error(
+            "missing_branch_steps",
+            `control branch.steps is required: ${step.id}`,
+            `${branchPath}/steps`,
+          );
+          return;
+        }
+        collectStepIssues(
+          branch.steps,
+          `${path}${branchPath}/steps`,
+          issues,
+          seenStepIds,
+          templates,
+        );
+      });
       if (step.control === "for_each") {
-        if (
-          !step.items_expression ||
-          step.items_expression.trim() === "" ||
-          !step.item_variable ||
-          step.item_variable.trim() === ""
-        ) {
-          throw new Error(
-            `for_each requires items_expression and item_variable: ${step.id}`,
+        if (!step.items_expression || step.items_expression.trim() === "") {
+          error(
+            "for_each_missing_items_expression",
+            `for_each requires items_expression: ${step.id}`,
+            "/items_expression",
+          );
+        }
+        if (!step.item_variable || step.item_variable.trim() === "") {
+          error(
+            "for_each_missing_item_variable",
+            `for_each requires item_variable: ${step.id}`,
+            "/item_variable",
           );
         }
       }
+      if (step.target !== undefined && step.control !== "while") {
+        error(
+          "unsupported_control_target",
+          `target is only supported on while steps: ${step.id}`,
+          "/target",
+        );
+      }
       if (step.control === "while") {
         if (!step.expression || step.expression.trim() === "") {
-          throw new Error(`while requires expression: ${step.id}`);
+          error(
+            "while_missing_expression",
+            `while requires expression: ${step.id}`,
+            "/expression",
+          );
         }
         if (
           step.max_iterations !== undefined &&
           (!Number.isInteger(step.max_iterations) || step.max_iterations < 1)
         ) {
-          throw new Error(`while max_iterations must be >= 1: ${step.id}`);
+          error(
+            "while_invalid_max_iterations",
+            `while max_iterations must be >= 1: ${step.id}`,
+            "/max_iterations",
+          );
         }
       }
-      continue;
+      for (const [key, parse] of [
+        ["expression", parseControlExpression],
+        ["items_expression", parseItemsExpression],
+      ] as const) {
+        const text = step[key];
+        const parseError = text ? findExpressionError(text, parse) : undefined;
+        if (parseError) {
+          error(
+            "invalid_expression",
+            `invalid ${key} in ${step.id}: ${parseError}`,
+            `/${key}`,
+          );
+        }
+      }
+      return;
     }
+
+    if (step.kind === "use") {
+      const template = templates[step.template];
+      if (!template) {
+        error(
+          "unknown_template",
+          `template is not defined: ${step.template || "(empty)"} (${step.id})`,
+          "/template",
+        );
+        return;
+      }
+      for (const parameter of template.parameters ?? []) {
+        if (step.with?.[parameter] === undefined) {
+          error(
+            "missing_template_parameter",
+            `template parameter is not provided: ${parameter} (${step.id})`,
+            "/with",
+          );
+        }
+      }
+      return;
+    }
+
     if (!Array.isArray(step.steps) || step.steps.length === 0) {
-      throw new Error(`group step must contain nested steps: ${step.id}`);
+      error(
+        "empty_group",
+        `group step must contain nested steps: ${step.id}`,
+        "/steps",
+      );
+      return;
     }
-    validateSteps(step.steps);
+    collectStepIssues(
+      step.steps,
+      `${path}/steps`,
+      issues,
+      seenStepIds,
+      templates,
+    );
+  });
+}
+
+function findExpressionError(
+  text: string,
+  parse: (text: string) => unknown,
+): string | undefined {
+  if (text.trim() === "") {
+    return undefined;
+  }
+  try {
+    parse(text);
+    return undefined;
+  } catch (parseError) {
+    return parseError instanceof Error
+      ? parseError.message
+      : String(parseError);
   }
 }
 
@@ -491,51 +954,144 @@ function resolveProfileVariables(
 function resolveVariableValues(
   scenario: AutomationScenario,
   options: LoadScenarioOptions | undefined,
-): Record<string, unknown> {
-  const defaults: Record<string, unknown> = {};
+): Record<string, { value: unknown; source: VariableSource }> {
+  const sources: Record<string, { value: unknown; source: VariableSource }> =
+    {};
+  const assign = (
+    values: Record<string, unknown>,
+    source: VariableSource,
+  ): void => {
+    for (const [id, value] of Object.entries(values)) {
+      sources[id] = { value, source };
+    }
+  };
   for (const variable of scenario.variables) {
     if (variable.default !== undefined) {
-      defaults[variable.id] = variable.default;
+      sources[variable.id] = {
+        value: variable.default,
+        source: { kind: "default" },
+      };
     }
   }
 
   const profileName = options?.profile?.trim();
   if (profileName) {
-    Object.assign(
-      defaults,
-      resolveProfileVariables(profileName, scenario.profiles),
-    );
+    assign(resolveProfileVariables(profileName, scenario.profiles), {
+      kind: "profile",
+      name: profileName,
+    });
+  }
+
+  const envFile = options?.envFileVariables ?? {};
+  for (const variable of scenario.variables) {
+    const envName = runtimeEnvironmentName(variable);
+    const key =
+      variable.id in envFile
+        ? variable.id
+        : envName !== undefined && envName in envFile
+          ? envName
+          : undefined;
+    if (key !== undefined) {
+      sources[variable.id] = {
+        value: envFile[key],
+        source: { kind: "env_file", key },
+      };
+    }
+  }
+
+  const environment = options?.environment ?? process.env;
+  for (const variable of scenario.variables) {
+    const envName = runtimeEnvironmentName(variable);
+    const value = envName === undefined ? undefined : environment[envName];
+    if (envName !== undefined && value !== undefined) {
+      sources[variable.id] = { value, source: { kind: "env", name: envName } };
+    }
+  }
+
+  if (options?.varsFileVariables) {
+    assign(options.varsFileVariables.values, {
+      kind: "vars_file",
+      path: options.varsFileVariables.path,
+    });
   }
 
   if (options?.variables) {
-    Object.assign(defaults, options.variables);
+    assign(options.variables, { kind: "cli" });
   }
 
   for (const variable of scenario.variables) {
-    if (variable.required && defaults[variable.id] === undefined) {
-      throw new Error(`required variable is not resolved: ${variable.id}`);
+    const resolved = sources[variable.id];
+    if (resolved === undefined || resolved.value === undefined) {
+      if (variable.required) {
+        throw new Error(`required variable is not resolved: ${variable.id}`);
+      }
+      continue;
     }
+    resolved.value = coerceVariableValue(
+      variable,
+      resolved.value,
+      resolved.source,
+    );
+  }
+  return sources;
+}
+
+function resolveVariableMap(
+  scenario: AutomationScenario,
+  options: LoadScenarioOptions | undefined,
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [id, { value }] of Object.entries(
+    resolveVariableValues(scenario, options),
+  )) {
+    values[id] = value;
   }
-  return defaults;
+  return values;
 }
 
+/** Final value and source of every resolved variable, for `--explain-vars`. */
+export function explainScenarioVariables(
+  scenario: AutomationScenario,
+  options?: LoadScenarioOptions,
+): VariableExplanation[] {
+  const secrets = new Set(
+    scenario.variables.filter(isSecretVariable).map((variable) => variable.id),
+  );
+  return Object.entries(resolveVariableValues(scenario, options))
+    .filter(([, { value }]) => value !== undefined)
+    .map(([id, { value, source }]) => ({
+      id,
+      value: secrets.has(id) ? SECRET_MASK : value,
+      source,
+    }));
+}
+
+/** `${name}` or `${name.path}`; group 1 is the variable, group 2 the path. */
+const VARIABLE_PLACEHOLDER =
+  /\$\{([a-zA-Z_][a-zA-Z0-9_]*)((?:\.[a-zA-Z0-9_-]+)*)\}/g;
+
 function interpolateString(
   text: string,
   values: Record<string, unknown>,
 ): string {
-  return text.replaceAll(/\$\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, (_, key) => {
-    if (!(key in values)) {
-      return "";
-    }
-    const value = values[key];
-    if (value === null || value === undefined) {
-      return "";
-    }
-    if (typeof value === "object") {
-      return JSON.stringify(value);
-    }
-    return String(value);
-  });
+  return text.replaceAll(
+    VARIABLE_PLACEHOLDER,
+    (placeholder, key: string, path: string) => {
+      // Loop variables and template parameters are resolved during Robot
+      // generation, so unknown placeholders are kept as-is.
+      if (!(key in values)) {
+        return placeholder;
+      }
+      const value = getPathValue(values, key + path);
+      if (value === null || value === undefined) {
+        return "";
+      }
+      if (typeof value === "object") {
+        return JSON.stringify(value);
+      }
+      return String(value);
+    },
+  );
 }
 
 function resolveValue<T>(value: T, values: Record<string, unknown>): T {
@@ -560,58 +1116,71 @@ function resolveValue<T>(value: T, values: Record<string, unknown>): T {
 function resolveSteps(
   steps: ScenarioStep[],
   values: Record<string, unknown>,
+  secrets: ReadonlySet<string>,
 ): ScenarioStep[] {
   return steps.map((step) => {
     if (step.kind === "group") {
       return {
         ...step,
-        title: interpolateString(step.title, values),
+        title: interpolateDisplayText(step.title, values),
         description: step.description
-          ? interpolateString(step.description, values)
+          ? interpolateDisplayText(step.description, values)
           : undefined,
-        steps: resolveSteps(step.steps, values),
+        steps: resolveSteps(step.steps, values, secrets),
       };
     }
     if (step.kind === "control") {
       return {
         ...resolveValue(step, values),
-        title: interpolateString(step.title, values),
+        title: interpolateDisplayText(step.title, values),
         description: step.description
-          ? interpolateString(step.description, values)
+          ? interpolateDisplayText(step.description, values)
           : undefined,
         expression: step.expression
-          ? interpolateString(step.expression, values)
+          ? interpolateExpression(step.expression, values)
           : undefined,
         items_expression: step.items_expression
-          ? interpolateString(step.items_expression, values)
+          ? interpolateExpression(step.items_expression, values)
           : undefined,
         item_variable: step.item_variable
           ? interpolateString(step.item_variable, values)
           : undefined,
         branches: step.branches
           ? step.branches.map((branch) => ({
-              when: interpolateString(branch.when, values),
-              steps: resolveSteps(branch.steps, values),
+              when: interpolateExpression(branch.when, values),
+              steps: resolveSteps(branch.steps, values, secrets),
             }))
           : undefined,
-        steps: step.steps ? resolveSteps(step.steps, values) : undefined,
+        steps: step.steps
+          ? resolveSteps(step.steps, values, secrets)
+          : undefined,
         catch_steps: step.catch_steps
-          ? resolveSteps(step.catch_steps, values)
+          ? resolveSteps(step.catch_steps, values, secrets)
           : undefined,
         finally_steps: step.finally_steps
-          ? resolveSteps(step.finally_steps, values)
+          ? resolveSteps(step.finally_steps, values, secrets)
+          : undefined,
+      };
+    }
+    if (step.kind === "use") {
+      return {
+        ...step,
+        title: interpolateDisplayText(step.title, values),
+        description: step.description
+          ? interpolateDisplayText(step.description, values)
           : undefined,
+        with: step.with ? resolveValue(step.with, values) : undefined,
       };
     }
     return {
       ...step,
-      title: interpolateString(step.title, values),
+      title: interpolateDisplayText(step.title, values),
       description: step.description
-        ? interpolateString(step.description, values)
+        ? interpolateDisplayText(step.description, values)
         : undefined,
       action: interpolateString(step.action, values),
       target: step.target ? resolveValue(step.target, values) : undefined,
-      input: step.input ? resolveValue(step.input, values) : undefined,
+      input: step.input ? resolveInput(step.input, values, secrets) : undefined,
       expect: step.expect ? resolveValue(step.expect, values) : undefined,
       timing: step.timing ? resolveValue(step.timing, values) : undefined,
       retry: step.retry ? resolveValue(step.retry, values) : undefined,
@@ -623,28 +1192,140 @@ function resolveSteps(
   });
 }
 
+/**
+ * Marks `input.secret` when `input.text` references a secret variable, so the
+ * typed value is masked after interpolation.
+ */
+function resolveInput(
+  input: Record<string, unknown>,
+  values: Record<string, unknown>,
+  secrets: ReadonlySet<string>,
+): Record<string, unknown> {
+  const resolved = resolveValue(input, values);
+  const text = input.text;
+  if (
+    typeof text === "string" &&
+    [...text.matchAll(VARIABLE_PLACEHOLDER)].some(([, key]) => secrets.has(key))
+  ) {
+    return { ...resolved, secret: true };
+  }
+  return resolved;
+}
+
 export function applyScenarioVariables(
   scenario: AutomationScenario,
   options?: LoadScenarioOptions,
 ): AutomationScenario {
-  const values = resolveVariableValues(scenario, options);
+  const values = resolveVariableMap(scenario, options);
+  const secrets = new Set(
+    scenario.variables.filter(isSecretVariable).map((variable) => variable.id),
+  );
+  for (const id of secrets) {
+    if (values[id] !== undefined) {
+      values[id] = `%{${secretEnvironmentName(id)}}`;
+    }
+  }
   return {
     ...resolveValue(scenario, values),
+    name: interpolateDisplayText(scenario.name, values),
+    description: scenario.description
+      ? interpolateDisplayText(scenario.description, values)
+      : undefined,
     variables: scenario.variables,
     profiles: scenario.profiles,
-    steps: resolveSteps(scenario.steps, values),
+    templates: resolveTemplates(scenario.templates, values, secrets),
+    steps: resolveSteps(scenario.steps, values, secrets),
   };
 }
 
+const SECRET_REFERENCE = /%\{SCENARIO_SECRET_[A-Z0-9_]+\}/g;
+
+/** `api-key` becomes `SCENARIO_SECRET_API_KEY`: upper case, other characters `_`. */
+export function secretEnvironmentName(id: string): string {
+  return `SCENARIO_SECRET_${id.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+/**
+ * Environment for the Robot run: the resolved value of every secret variable
+ * under its `SCENARIO_SECRET_<ID>` name.
+ */
+export function resolveScenarioSecrets(
+  scenario: AutomationScenario,
+  options?: LoadScenarioOptions,
+): Record<string, string> {
+  const values = resolveVariableMap(scenario, options);
+  const environment: Record<string, string> = {};
+  for (const variable of scenario.variables.filter(isSecretVariable)) {
+    const value = values[variable.id];
+    if (value !== undefined && value !== null) {
+      environment[secretEnvironmentName(variable.id)] =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+  }
+  return environment;
+}
+
+/** Titles and descriptions show secrets as `••••` instead of their reference. */
+function interpolateDisplayText(
+  text: string,
+  values: Record<string, unknown>,
+): string {
+  return interpolateString(text, values).replaceAll(
+    SECRET_REFERENCE,
+    SECRET_MASK,
+  );
+}
+
+function resolveTemplates(
+  templates: Record<string, ScenarioTemplate> | undefined,
+  values: Record<string, unknown>,
+  secrets: ReadonlySet<string>,
+): Record<string, ScenarioTemplate> | undefined {
+  if (!templates) {
+    return undefined;
+  }
+  const resolved: Record<string, ScenarioTemplate> = {};
+  for (const [name, template] of Object.entries(templates)) {
+    // Template parameters shadow scenario variables of the same name.
+    const scoped = { ...values };
+    for (const parameter of template.parameters ?? []) {
+      delete scoped[parameter];
+    }
+    resolved[name] = {
+      ...template,
+      title: interpolateDisplayText(template.title, scoped),
+      description: template.description
+        ? interpolateDisplayText(template.description, scoped)
+        : undefined,
+      steps: resolveSteps(template.steps, scoped, secrets),
+    };
+  }
+  return resolved;
+}
+
 export async function loadScenarioFile(
   path: string,
   options?: LoadScenarioOptions,
 ): Promise<AutomationScenario> {
-  const raw = JSON.parse(await readFile(path, "utf8")) as Record<
-    string,
-    unknown
-  >;
-  const scenario = normalizeScenario(raw, path);
+  const source = parseScenarioSource(await readFile(path, "utf8"), path);
+  const strict = options?.strict !== false;
+  if (strict) {
+    assertScenarioSchema(source, path);
+  }
+  const includeOrigins = new Map<string, IncludedStepOrigin>();
+  const scenario = normalizeScenario(
+    source.data as Record<string, unknown>,
+    path,
+    includeOrigins,
+  );
+  if (strict) {
+    for (const file of listIncludedFiles(includeOrigins, path).keys()) {
+      assertScenarioSchema(
+        parseScenarioSource(await readFile(file, "utf8"), file),
+        file,
+      );
+    }
+  }
   validateScenario(scenario);
   return applyScenarioVariables(scenario, options);
 }
@@ -1,9 +1,24 @@
-import type {
-  AutomationScenario,
-  ScenarioStep,
-  ScenarioStepAction,
-  ScenarioStepControl,
+import {
+  type ExpressionNode,
+  evaluateExpression,
+  getPathValue,
+  interpolateExpression,
+  isTruthy,
+  parseControlExpression,
+  parseItemsExpression,
+  toPythonExpression,
+  toPythonLiteral,
+} from "./controlExpression.js";
+import {
+  type AutomationScenario,
+  type ScenarioDriver,
+  type ScenarioStep,
+  type ScenarioStepAction,
+  type ScenarioStepControl,
+  type ScenarioStepUse,
+  type ScenarioTemplate,
 } from "./scenarioSpec.js";
+import { SECRET_MASK } from "./scenarioVariables.js";
 
 const WEB_ACTIONS = new Set([
   "open_url",
@@ -15,6 +30,14 @@ const WEB_ACTIONS = new Set([
   "wait_for",
   "assert",
   "press_keys",
+  "select_option",
+  "hover",
+  "scroll_to",
+  "upload_file",
+  "check",
+  "uncheck",
+  "switch_frame",
+  "switch_window",
   "screenshot",
   "start_video",
   "stop_video",
@@ -38,112 +61,533 @@ const UNITY_ACTIONS = new Set([
   "emit_annotation",
 ]);
 
+const DESKTOP_ACTIONS = new Set([
+  "click",
+  "double_click",
+  "right_click",
+  "drag_drop",
+  "type_text",
+  "wait_for",
+  "assert",
+  "press_keys",
+  "screenshot",
+  "start_video",
+  "stop_video",
+  "emit_annotation",
+]);
+
+/** `execution.web_driver`: SeleniumLibrary (default) or the Playwright-based Browser library. */
+type WebDriverBackend = "selenium" | "playwright";
+
 type ControlSignal = "none" | "break" | "continue" | "return";
 
 type ExpansionFrame = {
   signal: ControlSignal;
+  templates: Record<string, ScenarioTemplate>;
+  templateStack: string[];
+  warnings: RobotSuiteWarning[];
+  failOnLoopLimit: boolean;
+};
+
+/** A `try` control step kept as a block so it becomes Robot `TRY`/`EXCEPT`/`FINALLY`. */
+type ExpandedTryBlock = {
+  kind: "try";
+  steps: ExpandedStep[];
+  catchSteps?: ExpandedStep[];
+  finallySteps?: ExpandedStep[];
+};
+
+/** A `parallel` control step whose direct children each run as their own Robot process. */
+type ExpandedParallelBlock = {
+  kind: "parallel";
+  branches: Array<{ lane: string; steps: ExpandedStep[] }>;
+};
+
+type ExpandedStep =
+  ScenarioStepAction | ExpandedTryBlock | ExpandedParallelBlock;
+
+type SuiteBody = {
+  /** Lines placed inside the test case `TRY`. */
+  stepLines: string[];
+  keywordLines: string[];
+  settingsLines: string[];
+};
+
+type ParallelSink = {
+  scenarioId: string;
+  blockCount: number;
+  suites: RobotBranchSuite[];
+  renderSuite: (lane: string, body: SuiteBody) => string;
+};
+
+type NativeFrame = {
+  toStepLines: (step: ScenarioStepAction) => string[];
+  /** Keyword call that sets `${target_exists}` for a `while` step's target. */
+  toTargetProbe: (step: ScenarioStepControl) => string;
+  templates: Record<string, ScenarioTemplate>;
+  templateStack: string[];
+  seenIds: Map<string, number>;
+  loopCount: number;
+  failOnLoopLimit: boolean;
+  parallel: ParallelSink;
+};
+
+type NativeScope = {
+  parentTitles: string[];
+  /** Values known at generation time (template `with` parameters). */
+  values: Record<string, unknown>;
+  /** Robot variables assigned by enclosing loops at run time. */
+  runtimeVariables: string[];
+  idPrefix: string;
+  idSuffix: string;
+  depth: number;
+  inLoop: boolean;
+  /** Re-probe of the enclosing `while` target, emitted before `CONTINUE`. */
+  continueLines?: string[];
+};
+
+/**
+ * `unroll` expands control steps at generation time from static values;
+ * `native` emits Robot `IF`/`FOR`/`WHILE` blocks evaluated at run time.
+ */
+export type ControlFlowMode = "unroll" | "native";
+
+export type GenerateRobotSuiteOptions = {
+  /** Throw instead of warning when a `while` loop is cut off at max_iterations. */
+  failOnLoopLimit?: boolean;
+  /** Overrides `execution.control_flow` from the scenario. */
+  controlFlow?: ControlFlowMode;
+};
+
+export type RobotSuiteWarningCode =
+  "loop_limit_reached" | "target_candidate_skipped";
+
+export type RobotSuiteWarning = {
+  code: RobotSuiteWarningCode;
+  stepId: string;
+  message: string;
+};
+
+/** A suite generated for one branch of a `parallel` step, run next to the main suite. */
+export type RobotBranchSuite = {
+  fileName: string;
+  lane: string;
+  suite: string;
 };
 
+export type RobotSuiteResult = {
+  suite: string;
+  warnings: RobotSuiteWarning[];
+  branchSuites: RobotBranchSuite[];
+};
+
+export function generateRobotSuite(
+  scenario: AutomationScenario,
+  options?: GenerateRobotSuiteOptions,
+): RobotSuiteResult {
+  const warnings: RobotSuiteWarning[] = [];
+  const { toStepLines, toTargetProbe, renderSuite } = selectSuiteGenerator(
+    scenario,
+    warnings,
+  );
+  const parallel: ParallelSink = {
+    scenarioId: sanitizeDynamicStepId(scenario.scenario_id),
+    blockCount: 0,
+    suites: [],
+    renderSuite: (lane, body) =>
+      renderSuite(toBranchScenario(scenario, lane), {
+        ...body,
+        settingsLines: [`Metadata    lane    ${toRobotCell(lane)}`],
+      }),
+  };
+
+  let body: SuiteBody;
+  if (readControlFlowMode(scenario, options) === "native") {
+    body = toNativeSuiteBody(
+      renderNativeSteps(
+        scenario.steps,
+        {
+          parentTitles: [],
+          values: {},
+          runtimeVariables: [],
+          idPrefix: "",
+          idSuffix: "",
+          depth: 0,
+          inLoop: false,
+        },
+        {
+          toStepLines,
+          toTargetProbe,
+          templates: scenario.templates ?? {},
+          templateStack: [],
+          seenIds: new Map<string, number>(),
+          loopCount: 0,
+          failOnLoopLimit: options?.failOnLoopLimit ?? false,
+          parallel,
+        },
+      ),
+    );
+  } else {
+    body = {
+      stepLines: renderExpandedSteps(
+        flattenSteps(scenario.steps, {
+          signal: "none",
+          templates: scenario.templates ?? {},
+          templateStack: [],
+          warnings,
+          failOnLoopLimit: options?.failOnLoopLimit ?? false,
+        }),
+        toStepLines,
+        "",
+        parallel,
+      ),
+      keywordLines: [],
+      settingsLines: [],
+    };
+  }
+
+  return {
+    suite: renderSuite(scenario, body),
+    warnings,
+    branchSuites: parallel.suites,
+  };
+}
+
 export function generateRobotSuiteFromScenario(
   scenario: AutomationScenario,
+  options?: GenerateRobotSuiteOptions,
 ): string {
+  return generateRobotSuite(scenario, options).suite;
+}
+
+function selectSuiteGenerator(
+  scenario: AutomationScenario,
+  warnings: RobotSuiteWarning[],
+): {
+  toStepLines: (step: ScenarioStepAction) => string[];
+  toTargetProbe: (step: ScenarioStepControl) => string;
+  renderSuite: (scenario: AutomationScenario, body: SuiteBody) => string;
+} {
+  const backend = readWebDriverBackend(scenario);
+  const warn = (warning: RobotSuiteWarning): void => {
+    // Steps inside unrolled loops render once per iteration.
+    if (!warnings.some((item) => item.message === warning.message)) {
+      warnings.push(warning);
+    }
+  };
+  const toActionLines = (
+    step: ScenarioStepAction,
+    driver: ScenarioDriver,
+  ): string[] =>
+    driver === "web"
+      ? toWebStepLines(step, backend)
+      : driver === "unity"
+        ? toUnityStepLines(step)
+        : toDesktopStepLines(step);
+  const toDriverStepLines = (
+    step: ScenarioStepAction,
+    driver: ScenarioDriver,
+  ): string[] =>
+    withRetry(step, [
+      ...toStepCaptureLines(step, driver, backend),
+      ...withTargetFallbacks(
+        step,
+        driver,
+        backend,
+        (candidateStep) => toActionLines(candidateStep, driver),
+        warn,
+      ),
+      ...toExpectLines(step, driver, backend),
+    ]);
+  const toDriverTargetProbe = (
+    step: ScenarioStepControl,
+    driver: ScenarioDriver,
+  ): string => toTargetProbeCall(step, driver, backend, warn);
   if (scenario.target === "web") {
-    return generateWebRobotSuite(scenario);
+    return {
+      toStepLines: (step) => toDriverStepLines(step, "web"),
+      toTargetProbe: (step) => toDriverTargetProbe(step, "web"),
+      renderSuite: generateWebRobotSuite,
+    };
   }
   if (scenario.target === "unity") {
-    return generateUnityRobotSuite(scenario);
+    return {
+      toStepLines: (step) => toDriverStepLines(step, "unity"),
+      toTargetProbe: (step) => toDriverTargetProbe(step, "unity"),
+      renderSuite: generateUnityRobotSuite,
+    };
+  }
+  if (scenario.target === "desktop") {
+    return {
+      toStepLines: (step) => toDriverStepLines(step, "desktop"),
+      toTargetProbe: (step) => toDriverTargetProbe(step, "desktop"),
+      renderSuite: generateDesktopRobotSuite,
+    };
+  }
+  if (scenario.target === "hybrid") {
+    const defaultDriver = readHybridDefaultDriver(scenario);
+    return {
+      toStepLines: (step) =>
+        toDriverStepLines(step, resolveStepDriver(step, defaultDriver)),
+      toTargetProbe: (step) =>
+        toDriverTargetProbe(step, resolveStepDriver(step, defaultDriver)),
+      renderSuite: generateHybridRobotSuite,
+    };
   }
-
   throw new Error(`Unsupported scenario target: ${scenario.target}`);
 }
 
-function generateWebRobotSuite(scenario: AutomationScenario): string {
-  const startUrl = toRobotCell(readStartUrl(scenario));
-  const browser = toRobotCell(readBrowser(scenario));
+/** Libraries, setup and teardown contributed by one automation backend. */
+type DriverSession = {
+  libraries: string[];
+  /** Test case lines before the `TRY`. */
+  setupLines: string[];
+  /** Lines at the start of the `TRY`, before the scenario steps. */
+  startLines: string[];
+  finallyLines: string[];
+  keywordLines: string[];
+  /** `page` when step screenshots come from the browser page instead of the screen. */
+  screenshotSource?: "page";
+};
+
+function generateWebRobotSuite(
+  scenario: AutomationScenario,
+  body: SuiteBody,
+): string {
+  return assembleRobotSuite(scenario, [webSession(scenario)], body);
+}
+
+function generateUnityRobotSuite(
+  scenario: AutomationScenario,
+  body: SuiteBody,
+): string {
+  return assembleRobotSuite(scenario, [unitySession(scenario)], body);
+}
+
+function generateDesktopRobotSuite(
+  scenario: AutomationScenario,
+  body: SuiteBody,
+): string {
+  return assembleRobotSuite(scenario, [desktopSession(scenario)], body);
+}
+
+/** One test case that sets up every driver the scenario's steps use. */
+function generateHybridRobotSuite(
+  scenario: AutomationScenario,
+  body: SuiteBody,
+): string {
+  const drivers = collectScenarioDrivers(scenario);
+  const sessions: DriverSession[] = [];
+  if (drivers.has("web")) {
+    sessions.push(webSession(scenario));
+  }
+  if (drivers.has("unity")) {
+    sessions.push(unitySession(scenario));
+  }
+  if (drivers.has("desktop")) {
+    sessions.push(desktopSession(scenario));
+  }
+  return assembleRobotSuite(scenario, sessions, body);
+}
+
+function assembleRobotSuite(
+  scenario: AutomationScenario,
+  sessions: DriverSession[],
+  body: SuiteBody,
+): string {
   const screenshotEnabled = readScreenshotOutputEnabled(scenario)
     ? "${TRUE}"
     : "${FALSE}";
-  const stepLines = flattenSteps(scenario.steps).flatMap((step) =>
-    toWebStepLines(step),
-  );
+  const finallyLines = sessions.flatMap((session) => session.finallyLines);
+  // Page screenshots only cover the browser, so they are used when it is the only driver.
+  const screenshotSource =
+    sessions.length === 1 && sessions[0].screenshotSource === "page"
+      ? "page"
+      : "screen";
 
   return [
     "*** Settings ***",
     "Library    Collections",
-    "Library    SeleniumLibrary",
     "Library    Screenshot",
     "Library    OperatingSystem",
+    ...sessions.flatMap((session) =>
+      session.libraries.map((library) => `Library    ${library}`),
+    ),
+    ...body.settingsLines,
     "",
     "*** Test Cases ***",
     toRobotCell(scenario.name),
     "    Ensure Artifact Directories",
-    `    \${start_url}=    Set Variable    ${startUrl}`,
-    `    \${browser}=    Set Variable    ${browser}`,
     `    Set Suite Variable    \${screenshot_enabled}    ${screenshotEnabled}`,
-    "    Open Browser    ${start_url}    ${browser}",
-    "    Maximize Browser Window",
+    `    Set Suite Variable    \${screenshot_source}    ${screenshotSource}`,
+    "    Set Suite Variable    ${step_capture}    ${NONE}",
+    "    Set Suite Variable    ${step_attempts}    ${NONE}",
+    "    Set Suite Variable    ${step_target}    ${NONE}",
+    ...sessions.flatMap((session) => session.setupLines),
     "    TRY",
-    ...stepLines,
+    ...sessions.flatMap((session) => session.startLines),
+    ...body.stepLines,
     "    FINALLY",
-    "        Close All Browsers",
+    ...(finallyLines.length > 0 ? finallyLines : ["        No Operation"]),
     "    END",
     "",
     ...commonKeywordLines(),
-    ...webKeywordLines(),
+    ...sessions.flatMap((session) => session.keywordLines),
+    ...body.keywordLines,
     "",
   ].join("\n");
 }
 
-function generateUnityRobotSuite(scenario: AutomationScenario): string {
+function webSession(scenario: AutomationScenario): DriverSession {
+  if (readWebDriverBackend(scenario) === "playwright") {
+    return playwrightSession(scenario);
+  }
+  const startUrl = toRobotCell(readStartUrl(scenario));
+  const browser = toRobotCell(readBrowser(scenario));
+  return {
+    libraries: ["SeleniumLibrary"],
+    setupLines: [
+      `    \${start_url}=    Set Variable    ${startUrl}`,
+      `    \${browser}=    Set Variable    ${browser}`,
+      "    Open Browser    ${start_url}    ${browser}",
+      "    Maximize Browser Window",
+    ],
+    startLines: [],
+    finallyLines: ["        Close All Browsers"],
+    keywordLines: webKeywordLines(),
+  };
+}
+
+/**
+ * Runs headless unless `execution.headless` says otherwise; by default only
+ * when there is no display (Linux without `DISPLAY`).
+ */
+function playwrightSession(scenario: AutomationScenario): DriverSession {
+  const startUrl = toRobotCell(readStartUrl(scenario));
+  const browser = toPlaywrightBrowser(readBrowser(scenario));
+  const headless = scenario.execution?.headless;
+  return {
+    libraries: ["Browser"],
+    setupLines: [
+      `    \${start_url}=    Set Variable    ${startUrl}`,
+      typeof headless === "boolean"
+        ? `    \${headless}=    Set Variable    \${${headless ? "TRUE" : "FALSE"}}`
+        : "    ${headless}=    Evaluate    sys.platform.startswith('linux') and not os.environ.get('DISPLAY')    modules=sys,os",
+      `    New Browser    ${browser}    headless=\${headless}`,
+      "    New Context    viewport={'width': 1280, 'height': 720}",
+      "    ${main_page}=    New Page    ${start_url}",
+    ],
+    startLines: [],
+    finallyLines: ["        Close Browser    ALL"],
+    keywordLines: playwrightKeywordLines(),
+    screenshotSource: "page",
+  };
+}
+
+function unitySession(scenario: AutomationScenario): DriverSession {
   const unityMode = normalizeUnityMode(readUnityExecutionMode(scenario));
   const unityProjectPath = toRobotOptionalCell(readUnityProjectPath(scenario));
   const unityWindowHint = toRobotCell(readUnityWindowHint(scenario));
-  const screenshotEnabled = readScreenshotOutputEnabled(scenario)
-    ? "${TRUE}"
-    : "${FALSE}";
-  const stepLines = flattenSteps(scenario.steps).flatMap((step) =>
-    toUnityStepLines(step),
-  );
+  return {
+    libraries: ["robotframework_unity_editor.UnityEditorLibrary"],
+    setupLines: [
+      "    Set Unity Output Directory    ${OUTPUT DIR}",
+      `    \${unity_mode}=    Set Variable    ${unityMode}`,
+      `    \${unity_project_path}=    Set Variable    ${unityProjectPath}`,
+      `    \${unity_window_hint}=    Set Variable    ${unityWindowHint}`,
+    ],
+    startLines: [
+      "        IF    '${unity_mode}' == 'launch'",
+      "            Require Unity Project Path    ${unity_project_path}",
+      "            Start Unity Editor    project_path=${unity_project_path}",
+      "        ELSE",
+      "            Attach To Running Unity Editor    window_hint=${unity_window_hint}",
+      "        END",
+    ],
+    finallyLines: [
+      "        IF    '${unity_mode}' == 'launch'",
+      "            Stop Unity Editor",
+      "        END",
+    ],
+    keywordLines: unityKeywordLines(),
+  };
+}
 
-  return [
-    "*** Settings ***",
-    "Library    Collections",
-    "Library    Screenshot",
-    "Library    OperatingSystem",
-    "Library    robotframework_unity_editor.UnityEditorLibrary",
-    "",
-    "*** Test Cases ***",
-    toRobotCell(scenario.name),
-    "    Ensure Artifact Directories",
-    "    Set Unity Output Directory    ${OUTPUT DIR}",
-    `    \${unity_mode}=    Set Variable    ${unityMode}`,
-    `    \${unity_project_path}=    Set Variable    ${unityProjectPath}`,
-    `    \${unity_window_hint}=    Set Variable    ${unityWindowHint}`,
-    `    Set Suite Variable    \${screenshot_enabled}    ${screenshotEnabled}`,
-    "    TRY",
-    "        IF    '${unity_mode}' == 'launch'",
-    "            Require Unity Project Path    ${unity_project_path}",
-    "            Start Unity Editor    project_path=${unity_project_path}",
-    "        ELSE",
-    "            Attach To Running Unity Editor    window_hint=${unity_window_hint}",
-    "        END",
-    ...stepLines,
-    "    FINALLY",
-    "        IF    '${unity_mode}' == 'launch'",
-    "            Stop Unity Editor",
-    "        END",
-    "    END",
-    "",
-    ...commonKeywordLines(),
-    ...unityKeywordLines(),
-    "",
-  ].join("\n");
+/**
+ * Desktop steps drive a top-level window found by `execution.window` (an
+ * RPA.Windows locator) or `metadata.target_window_hint` (a title substring).
+ * `execution.launch.command` starts the application first and closes it after.
+ */
+function desktopSession(scenario: AutomationScenario): DriverSession {
+  const window = toRobotCell(readDesktopWindowLocator(scenario));
+  const launch = readExecutionObject(scenario, "launch");
+  const command =
+    launch && typeof launch.command === "string" ? launch.command.trim() : "";
+  return {
+    libraries: ["RPA.Windows"],
+    setupLines: [`    Set Suite Variable    \${desktop_window}    ${window}`],
+    startLines: [
+      ...(command
+        ? [`        RPA.Windows.Windows Run    ${toRobotCell(command)}`]
+        : []),
+      "        Wait Until Keyword Succeeds    30 sec    1 sec    RPA.Windows.Control Window    ${desktop_window}",
+    ],
+    finallyLines: command
+      ? [
+          "        Run Keyword And Ignore Error    RPA.Windows.Close Window    ${desktop_window}",
+        ]
+      : [],
+    keywordLines: desktopKeywordLines(),
+  };
 }
 
-function flattenSteps(steps: ScenarioStep[]): ScenarioStepAction[] {
-  const frame: ExpansionFrame = { signal: "none" };
+function flattenSteps(
+  steps: ScenarioStep[],
+  frame: ExpansionFrame,
+): ExpandedStep[] {
   const expanded = expandSteps(steps, [], {}, frame);
-  return dedupeStepIds(expanded);
+  return dedupeStepIds(expanded, new Map<string, number>());
+}
+
+function renderExpandedSteps(
+  steps: ExpandedStep[],
+  toStepLines: (step: ScenarioStepAction) => string[],
+  indent: string,
+  parallel: ParallelSink,
+): string[] {
+  return steps.flatMap((step) => {
+    if (step.kind === "action") {
+      return toStepLines(step).map((line) => `${indent}${line}`);
+    }
+    if (step.kind === "parallel") {
+      return toParallelLines(
+        `        ${indent}`,
+        step.branches.map((branch) => ({
+          lane: branch.lane,
+          body: {
+            stepLines: renderExpandedSteps(
+              branch.steps,
+              toStepLines,
+              "",
+              parallel,
+            ),
+            keywordLines: [],
+            settingsLines: [],
+          },
+        })),
+        parallel,
+      );
+    }
+    const render = (nested: ExpandedStep[] | undefined) =>
+      nested &&
+      renderExpandedSteps(nested, toStepLines, `${indent}    `, parallel);
+    return toTryBlockLines(
+      `        ${indent}`,
+      render(step.steps) ?? [],
+      render(step.catchSteps),
+      render(step.finallySteps),
+    );
+  });
 }
 
 function expandSteps(
@@ -151,8 +595,8 @@ function expandSteps(
   parentTitles: string[],
   values: Record<string, unknown>,
   frame: ExpansionFrame,
-): ScenarioStepAction[] {
-  const output: ScenarioStepAction[] = [];
+): ExpandedStep[] {
+  const output: ExpandedStep[] = [];
 
   for (const step of steps) {
     if (frame.signal === "return") {
@@ -176,18 +620,87 @@ function expandSteps(
       continue;
     }
 
+    if (step.kind === "use") {
+      output.push(...expandUseStep(step, parentTitles, values, frame));
+      continue;
+    }
+
     output.push(...expandControlStep(step, parentTitles, values, frame));
   }
 
   return output;
 }
 
+function expandUseStep(
+  step: ScenarioStepUse,
+  parentTitles: string[],
+  values: Record<string, unknown>,
+  frame: ExpansionFrame,
+): ExpandedStep[] {
+  const template = frame.templates[step.template];
+  if (!template) {
+    throw new Error(`Unknown template: ${step.template} (${step.id})`);
+  }
+  if (frame.templateStack.includes(step.template)) {
+    throw new Error(
+      `Template recursion detected: ${[...frame.templateStack, step.template].join(" -> ")}`,
+    );
+  }
+
+  const templateValues = {
+    ...values,
+    ...resolveTemplate(step.with ?? {}, values),
+  };
+  frame.templateStack.push(step.template);
+  const expanded = expandSteps(
+    template.steps,
+    [...parentTitles, interpolateString(template.title, templateValues)],
+    templateValues,
+    frame,
+  );
+  frame.templateStack.pop();
+  return prefixExpandedIds(expanded, step.id);
+}
+
+function prefixExpandedIds(
+  steps: ExpandedStep[],
+  prefix: string,
+): ExpandedStep[] {
+  return steps.map((step): ExpandedStep => {
+    if (step.kind === "parallel") {
+      return {
+        ...step,
+        branches: step.branches.map((branch) => ({
+          ...branch,
+          steps: prefixExpandedIds(branch.steps, prefix),
+        })),
+      };
+    }
+    if (step.kind === "try") {
+      const prefixed = (nested: ExpandedStep[] | undefined) =>
+        nested && prefixExpandedIds(nested, prefix);
+      return {
+        ...step,
+        steps: prefixExpandedIds(step.steps, prefix),
+        catchSteps: prefixed(step.catchSteps),
+        finallySteps: prefixed(step.finallySteps),
+      };
+    }
+    return { ...step, id: sanitizeDynamicStepId(`${prefix}-${step.id}`) };
+  });
+}
+
 function resolveActionStep(
   step: ScenarioStepAction,
   parentTitles: string[],
   values: Record<string, unknown>,
+  preserveUnknown = false,
 ): ScenarioStepAction {
-  const resolved = resolveTemplate(step, values) as ScenarioStepAction;
+  const resolved = resolveTemplate(
+    step,
+    values,
+    preserveUnknown,
+  ) as ScenarioStepAction;
   const titlePrefix =
     parentTitles.length > 0 ? `${parentTitles.join(" > ")} > ` : "";
   return {
@@ -207,14 +720,14 @@ function expandControlStep(
   parentTitles: string[],
   values: Record<string, unknown>,
   frame: ExpansionFrame,
-): ScenarioStepAction[] {
-  const output: ScenarioStepAction[] = [];
+): ExpandedStep[] {
+  const output: ExpandedStep[] = [];
 
   if (step.control === "if") {
     const branches = Array.isArray(step.branches) ? step.branches : [];
     let matched = false;
     for (const branch of branches) {
-      if (!evaluateControlExpression(branch.when, values)) {
+      if (!evaluateControlExpression(step, branch.when, values)) {
         continue;
       }
       matched = true;
@@ -229,7 +742,7 @@ function expandControlStep(
 
   if (step.control === "for_each") {
     const itemVariable = step.item_variable?.trim() || "item";
-    const items = evaluateItemsExpression(step.items_expression, values);
+    const items = evaluateItemsExpression(step, values);
     const nested = step.steps ?? [];
     for (let index = 0; index < items.length; index += 1) {
       const item = items[index];
@@ -256,6 +769,11 @@ function expandControlStep(
   }
 
   if (step.control === "while") {
+    if (step.target) {
+      throw new Error(
+        `while ${step.id} probes its target at run time; use control_flow "native".`,
+      );
+    }
     const nested = step.steps ?? [];
     const maxIterations =
       typeof step.max_iterations === "number" &&
@@ -264,8 +782,10 @@ function expandControlStep(
         : 50;
 
     let iterations = 0;
+    let stopped = false;
     while (iterations < maxIterations) {
-      if (!evaluateControlExpression(step.expression, values)) {
+      if (!evaluateControlExpression(step, step.expression, values)) {
+        stopped = true;
         break;
       }
       const loopValues = {
@@ -280,32 +800,58 @@ function expandControlStep(
       }
       if (frame.signal === "break") {
         frame.signal = "none";
+        stopped = true;
         break;
       }
       if (frame.signal === "continue") {
         frame.signal = "none";
       }
     }
+    if (!stopped && evaluateControlExpression(step, step.expression, values)) {
+      reportLoopLimit(step, maxIterations, frame);
+    }
     return output;
   }
 
   if (step.control === "try") {
-    if (step.steps) {
-      output.push(...expandSteps(step.steps, parentTitles, values, frame));
+    const body = expandSteps(step.steps ?? [], parentTitles, values, frame);
+    if (!hasSteps(step.catch_steps) && !hasSteps(step.finally_steps)) {
+      return body;
     }
-    if (step.finally_steps) {
-      output.push(
-        ...expandSteps(step.finally_steps, parentTitles, values, frame),
-      );
+    // Recovery steps are generated even when the body stopped expansion early,
+    // because Robot still runs EXCEPT/FINALLY after a failure or RETURN.
+    const signal = frame.signal;
+    frame.signal = "none";
+    const expandBranch = (nested: ScenarioStep[] | undefined) =>
+      hasSteps(nested)
+        ? expandSteps(nested, parentTitles, values, frame)
+        : undefined;
+    const block: ExpandedTryBlock = {
+      kind: "try",
+      steps: body,
+      catchSteps: expandBranch(step.catch_steps),
+      finallySteps: expandBranch(step.finally_steps),
+    };
+    if (frame.signal === "none") {
+      frame.signal = signal;
     }
-    return output;
+    return [block];
   }
 
   if (step.control === "parallel") {
-    if (step.steps) {
-      output.push(...expandSteps(step.steps, parentTitles, values, frame));
+    const children = step.steps ?? [];
+    if (children.length < 2) {
+      return expandSteps(children, parentTitles, values, frame);
     }
-    return output;
+    // Branches run in separate processes, so a break/return inside one branch
+    // only ends that branch.
+    const signal = frame.signal;
+    const branches = children.map((child) => {
+      const steps = expandSteps([child], parentTitles, values, frame);
+      frame.signal = signal;
+      return { lane: sanitizeDynamicStepId(child.id), steps };
+    });
+    return [{ kind: "parallel", branches }];
   }
 
   if (step.control === "break") {
@@ -326,233 +872,574 @@ function expandControlStep(
   throw new Error(`Unsupported control step: ${step.control} (${step.id})`);
 }
 
-function evaluateItemsExpression(
-  expression: string | undefined,
-  values: Record<string, unknown>,
-): unknown[] {
-  if (!expression || expression.trim() === "") {
-    return [];
+function reportLoopLimit(
+  step: ScenarioStepControl,
+  maxIterations: number,
+  frame: ExpansionFrame,
+): void {
+  const message = `while loop ${step.id} reached max_iterations (${maxIterations}) and its condition is still true; the body was unrolled ${maxIterations} times.`;
+  if (frame.failOnLoopLimit) {
+    throw new Error(message);
   }
+  frame.warnings.push({ code: "loop_limit_reached", stepId: step.id, message });
+}
 
-  const resolved = resolveExpressionValue(expression, values);
-  if (Array.isArray(resolved)) {
-    return resolved;
-  }
-  if (resolved && typeof resolved === "object") {
-    return Object.values(resolved);
-  }
-  if (typeof resolved === "string") {
-    const trimmed = resolved.trim();
-    if (trimmed === "") {
-      return [];
+function renderNativeSteps(
+  steps: ScenarioStep[],
+  scope: NativeScope,
+  frame: NativeFrame,
+): string[] {
+  const lines: string[] = [];
+  for (const step of steps) {
+    if (step.kind === "group") {
+      lines.push(
+        ...renderNativeSteps(
+          step.steps,
+          {
+            ...scope,
+            parentTitles: [
+              ...scope.parentTitles,
+              interpolateString(step.title, scope.values, true),
+            ],
+          },
+          frame,
+        ),
+      );
+      continue;
     }
-    try {
-      const parsed = JSON.parse(trimmed) as unknown;
-      if (Array.isArray(parsed)) {
-        return parsed;
-      }
-    } catch {
-      // non-json list expression
+    if (step.kind === "action") {
+      lines.push(...renderNativeAction(step, scope, frame));
+      continue;
     }
-    return trimmed
-      .split(",")
-      .map((part) => part.trim())
-      .filter((part) => part !== "");
-  }
-  if (resolved === undefined || resolved === null) {
-    return [];
+    if (step.kind === "use") {
+      lines.push(...renderNativeUseStep(step, scope, frame));
+      continue;
+    }
+    lines.push(...renderNativeControlStep(step, scope, frame));
   }
-  return [resolved];
+  return lines;
 }
-function evaluateControlExpression(
-  expression: string | undefined,
-  values: Record<string, unknown>,
-): boolean {
-  if (!expression) {
-    return false;
-  }
-  const normalized = expression.trim();
-  if (normalized === "") {
-    return false;
+
+function renderNativeAction(
+  step: ScenarioStepAction,
+  scope: NativeScope,
+  frame: NativeFrame,
+): string[] {
+  const resolved = resolveActionStep(
+    step,
+    scope.parentTitles,
+    scope.values,
+    true,
+  );
+  const baseId = sanitizeDynamicStepId(`${scope.idPrefix}${resolved.id}`);
+  const count = (frame.seenIds.get(baseId) ?? 0) + 1;
+  frame.seenIds.set(baseId, count);
+  // Loop index suffixes keep screenshots of each iteration apart at run time.
+  const id = `${count === 1 ? baseId : `${baseId}-${count}`}${scope.idSuffix}`;
+  return frame
+    .toStepLines({ ...resolved, id })
+    .map((line) => `${nativeIndent(scope.depth)}${line.replace(/^ {8}/, "")}`);
+}
+
+function renderNativeUseStep(
+  step: ScenarioStepUse,
+  scope: NativeScope,
+  frame: NativeFrame,
+): string[] {
+  const template = frame.templates[step.template];
+  if (!template) {
+    throw new Error(`Unknown template: ${step.template} (${step.id})`);
   }
-  if (normalized.startsWith("!")) {
-    return !evaluateControlExpression(normalized.slice(1), values);
+  if (frame.templateStack.includes(step.template)) {
+    throw new Error(
+      `Template recursion detected: ${[...frame.templateStack, step.template].join(" -> ")}`,
+    );
   }
 
-  const operatorMatch = normalized.match(
-    /^(.*?)\s+(==|!=|>=|<=|>|<|in|contains)\s+(.*?)$/,
+  const values = {
+    ...scope.values,
+    ...resolveTemplate(step.with ?? {}, scope.values, true),
+  };
+  frame.templateStack.push(step.template);
+  const lines = renderNativeSteps(
+    template.steps,
+    {
+      ...scope,
+      parentTitles: [
+        ...scope.parentTitles,
+        interpolateString(template.title, values, true),
+      ],
+      values,
+      idPrefix: `${scope.idPrefix}${step.id}-`,
+    },
+    frame,
   );
-  if (!operatorMatch) {
-    return isTruthy(resolveExpressionValue(normalized, values));
-  }
+  frame.templateStack.pop();
+  return lines;
+}
 
-  const left = resolveExpressionValue(operatorMatch[1], values);
-  const operator = operatorMatch[2];
-  const right = resolveExpressionValue(operatorMatch[3], values);
+function renderNativeControlStep(
+  step: ScenarioStepControl,
+  scope: NativeScope,
+  frame: NativeFrame,
+): string[] {
+  const indent = nativeIndent(scope.depth);
+  const inner: NativeScope = { ...scope, depth: scope.depth + 1 };
 
-  if (operator === "==") {
-    return compareOperands(left, right) === 0;
-  }
-  if (operator === "!=") {
-    return compareOperands(left, right) !== 0;
-  }
-  if (operator === ">") {
-    return compareOperands(left, right) > 0;
-  }
-  if (operator === "<") {
-    return compareOperands(left, right) < 0;
-  }
-  if (operator === ">=") {
-    return compareOperands(left, right) >= 0;
-  }
-  if (operator === "<=") {
-    return compareOperands(left, right) <= 0;
-  }
-  if (operator === "in") {
-    if (Array.isArray(right)) {
-      return right.some((item) => compareOperands(left, item) === 0);
+  if (step.control === "if") {
+    const branches = Array.isArray(step.branches) ? step.branches : [];
+    if (branches.length === 0) {
+      return step.steps ? renderNativeSteps(step.steps, scope, frame) : [];
     }
-    if (typeof right === "string") {
-      return right.includes(String(left ?? ""));
+    const lines: string[] = [];
+    branches.forEach((branch, index) => {
+      lines.push(
+        `${indent}${index === 0 ? "IF" : "ELSE IF"}    ${toNativeCondition(step, branch.when, scope)}`,
+        ...nativeBody(
+          renderNativeSteps(branch.steps, inner, frame),
+          inner.depth,
+        ),
+      );
+    });
+    if (step.steps && step.steps.length > 0) {
+      lines.push(
+        `${indent}ELSE`,
+        ...nativeBody(renderNativeSteps(step.steps, inner, frame), inner.depth),
+      );
     }
-    return false;
+    return [...lines, `${indent}END`];
   }
-  if (operator === "contains") {
-    if (Array.isArray(left)) {
-      return left.some((item) => compareOperands(item, right) === 0);
-    }
-    if (typeof left === "string") {
-      return left.includes(String(right ?? ""));
+
+  if (step.control === "for_each") {
+    frame.loopCount += 1;
+    const itemVariable = step.item_variable?.trim() || "item";
+    const indexVariable = `${itemVariable}_index`;
+    const listVariable = `for_each_items_${frame.loopCount}`;
+    const loopScope: NativeScope = {
+      ...inner,
+      runtimeVariables: [
+        ...scope.runtimeVariables,
+        itemVariable,
+        indexVariable,
+        "item",
+        "index",
+      ],
+      idSuffix: `${scope.idSuffix}-\${${indexVariable}}`,
+      inLoop: true,
+      continueLines: undefined,
+    };
+    const aliases = [
+      `${nativeIndent(inner.depth)}\${index}=    Set Variable    \${${indexVariable}}`,
+    ];
+    if (itemVariable !== "item") {
+      aliases.unshift(
+        `${nativeIndent(inner.depth)}\${item}=    Set Variable    \${${itemVariable}}`,
+      );
     }
-    return false;
+    return [
+      `${indent}\${${listVariable}}=    Evaluate    ${toNativeItems(step, scope)}`,
+      `${indent}FOR    \${${indexVariable}}    \${${itemVariable}}    IN ENUMERATE    @{${listVariable}}`,
+      ...aliases,
+      ...renderNativeSteps(step.steps ?? [], loopScope, frame),
+      `${indent}END`,
+    ];
   }
 
-  return false;
-}
-
-function resolveExpressionValue(
-  raw: string,
-  values: Record<string, unknown>,
-): unknown {
-  const token = raw.trim();
-  if (token === "") {
-    return "";
+  if (step.control === "while") {
+    frame.loopCount += 1;
+    const counter = `while_index_${frame.loopCount}`;
+    const maxIterations =
+      typeof step.max_iterations === "number" &&
+      Number.isInteger(step.max_iterations)
+        ? Math.max(1, step.max_iterations)
+        : 50;
+    // A target is probed before the first check and again before every
+    // later one, so the condition can follow run-time state.
+    const probe = step.target
+      ? [`\${target_exists}=    ${frame.toTargetProbe(step)}`]
+      : [];
+    const loopScope: NativeScope = {
+      ...inner,
+      runtimeVariables: [
+        ...scope.runtimeVariables,
+        "loop_index",
+        counter,
+        ...(step.target ? ["target_exists"] : []),
+      ],
+      idSuffix: `${scope.idSuffix}-\${${counter}}`,
+      inLoop: true,
+      continueLines: probe,
+    };
+    const condition = toNativeCondition(step, step.expression, loopScope);
+    const message = toRobotCell(
+      `while loop ${step.id} reached max_iterations (${maxIterations}) and its condition is still true.`,
+    );
+    const lines = [
+      `${indent}\${${counter}}=    Set Variable    \${-1}`,
+      `${indent}\${loop_index}=    Set Variable    \${0}`,
+      ...probe.map((line) => `${indent}${line}`),
+      frame.failOnLoopLimit
+        ? `${indent}WHILE    ${condition}    limit=${maxIterations}    on_limit=fail    on_limit_message=${message}`
+        : `${indent}WHILE    ${condition}    limit=${maxIterations}    on_limit=pass`,
+      `${nativeIndent(inner.depth)}\${${counter}}=    Evaluate    $${counter} + 1`,
+      `${nativeIndent(inner.depth)}\${loop_index}=    Set Variable    \${${counter}}`,
+      ...renderNativeSteps(step.steps ?? [], loopScope, frame),
+      ...probe.map((line) => `${nativeIndent(inner.depth)}${line}`),
+      `${indent}END`,
+    ];
+    if (frame.failOnLoopLimit) {
+      return lines;
+    }
+    // Mirrors the unroll-mode loop_limit_reached warning at run time.
+    return [
+      ...lines,
+      `${indent}IF    ($${counter}) == (${maxIterations - 1}) and (${condition})`,
+      `${nativeIndent(inner.depth)}Log    loop_limit_reached: ${message}    WARN`,
+      `${indent}END`,
+    ];
   }
 
-  if (token.startsWith("${") && token.endsWith("}")) {
-    const path = token.slice(2, -1).trim();
-    return getPathValue(values, path);
+  if (step.control === "try") {
+    if (!hasSteps(step.catch_steps) && !hasSteps(step.finally_steps)) {
+      return renderNativeSteps(step.steps ?? [], scope, frame);
+    }
+    const renderBranch = (nested: ScenarioStep[] | undefined) =>
+      hasSteps(nested) ? renderNativeSteps(nested, inner, frame) : undefined;
+    return toTryBlockLines(
+      indent,
+      renderNativeSteps(step.steps ?? [], inner, frame),
+      renderBranch(step.catch_steps),
+      renderBranch(step.finally_steps),
+    );
   }
 
-  if (
-    (token.startsWith('"') && token.endsWith('"')) ||
-    (token.startsWith("'") && token.endsWith("'"))
-  ) {
-    return token.slice(1, -1);
+  if (step.control === "parallel") {
+    const children = step.steps ?? [];
+    if (children.length < 2) {
+      return renderNativeSteps(children, scope, frame);
+    }
+    if (scope.runtimeVariables.length > 0) {
+      throw new Error(
+        `parallel steps cannot be nested inside native loops (${step.id})`,
+      );
+    }
+    return toParallelLines(
+      indent,
+      children.map((child) => ({
+        lane: sanitizeDynamicStepId(child.id),
+        body: toNativeSuiteBody(
+          renderNativeSteps(
+            [child],
+            { ...scope, depth: 0, inLoop: false },
+            frame,
+          ),
+        ),
+      })),
+      frame.parallel,
+    );
   }
 
-  if (token === "true") {
-    return true;
+  if (step.control === "break" || step.control === "continue") {
+    if (!scope.inLoop) {
+      throw new Error(
+        `${step.control} must be inside a for_each or while loop (${step.id})`,
+      );
+    }
+    return [
+      ...(step.control === "continue"
+        ? (scope.continueLines ?? []).map((line) => `${indent}${line}`)
+        : []),
+      `${indent}${step.control.toUpperCase()}`,
+    ];
   }
-  if (token === "false") {
-    return false;
+
+  if (step.control === "return") {
+    return [`${indent}RETURN`];
   }
-  if (token === "null") {
-    return null;
+
+  throw new Error(`Unsupported control step: ${step.control} (${step.id})`);
+}
+
+function toNativeCondition(
+  step: ScenarioStepControl,
+  expression: string | undefined,
+  scope: NativeScope,
+): string {
+  if (!expression || expression.trim() === "") {
+    return "False";
   }
+  const node = parseStepExpression(
+    step,
+    interpolateExpression(expression, scope.values),
+    parseControlExpression,
+  );
+  return toRobotExpressionCell(toNativePython(node, scope));
+}
 
-  const maybeNumber = Number(token);
-  if (!Number.isNaN(maybeNumber) && token !== "") {
-    return maybeNumber;
+function toNativeItems(step: ScenarioStepControl, scope: NativeScope): string {
+  const expression = step.items_expression;
+  if (!expression || expression.trim() === "") {
+    return "[]";
+  }
+  const nodes = parseStepExpression(
+    step,
+    interpolateExpression(expression, scope.values),
+    parseItemsExpression,
+  );
+  if (nodes.length === 1 && !referencesAny(nodes[0], scope.runtimeVariables)) {
+    // Static lists are resolved now so `a,b` splits the same way as unroll mode.
+    return toRobotExpressionCell(
+      toPythonLiteral(
+        toItemsList(
+          evaluateStepExpression(step, expression, nodes[0], scope.values),
+        ),
+      ),
+    );
   }
+  const items = nodes.map((node) => toNativePython(node, scope));
+  return toRobotExpressionCell(
+    items.length === 1 ? items[0] : `[${items.join(", ")}]`,
+  );
+}
 
-  if (token.startsWith("{") || token.startsWith("[")) {
-    try {
-      return JSON.parse(token) as unknown;
-    } catch {
-      // keep as raw token
+function toNativePython(node: ExpressionNode, scope: NativeScope): string {
+  return toPythonExpression(node, (path, bare) => {
+    const [root, ...segments] = path.split(".");
+    if (scope.runtimeVariables.includes(root)) {
+      return `$${root}${segments
+        .map((segment) =>
+          /^\d+$/.test(segment)
+            ? `[${segment}]`
+            : `[${toPythonLiteral(segment)}]`,
+        )
+        .join("")}`;
     }
-  }
+    const value = getPathValue(scope.values, path);
+    if (value !== undefined) {
+      return toPythonLiteral(value);
+    }
+    return bare ? toPythonLiteral(path) : "None";
+  });
+}
 
-  if (token.includes("${")) {
-    return interpolateString(token, values);
+function referencesAny(node: ExpressionNode, names: string[]): boolean {
+  switch (node.type) {
+    case "literal":
+      return /\$\{/.test(String(node.value));
+    case "reference":
+      return names.includes(node.path.split(".")[0]);
+    case "array":
+      return node.items.some((item) => referencesAny(item, names));
+    case "object":
+      return node.entries.some(([, value]) => referencesAny(value, names));
+    case "unary":
+      return referencesAny(node.operand, names);
+    case "binary":
+    case "logical":
+      return (
+        referencesAny(node.left, names) || referencesAny(node.right, names)
+      );
+    case "call":
+      return node.args.some((arg) => referencesAny(arg, names));
   }
+}
+
+/**
+ * Writes one suite per branch and returns the line that starts them as
+ * concurrent Robot processes and waits for all of them.
+ */
+function toParallelLines(
+  indent: string,
+  branches: Array<{ lane: string; body: SuiteBody }>,
+  sink: ParallelSink,
+): string[] {
+  sink.blockCount += 1;
+  const block = sink.blockCount;
+  const suitePaths = branches.map(({ lane, body }) => {
+    const fileName = `${sink.scenarioId}--parallel-${block}-${lane}.robot`;
+    sink.suites.push({ fileName, lane, suite: sink.renderSuite(lane, body) });
+    return `\${CURDIR}\${/}${fileName}`;
+  });
+  return [`${indent}Run Parallel Branches    ${suitePaths.join("    ")}`];
+}
+
+function toNativeSuiteBody(lines: string[]): SuiteBody {
+  return {
+    stepLines: ["        Run Scenario Steps"],
+    keywordLines: ["Run Scenario Steps", ...nativeBody(lines, 0)],
+    settingsLines: [],
+  };
+}
+
+/**
+ * Branch suites attach to the editor started by the main suite instead of
+ * launching a second one; web branches open their own browser.
+ */
+function toBranchScenario(
+  scenario: AutomationScenario,
+  lane: string,
+): AutomationScenario {
+  return {
+    ...scenario,
+    name: `${scenario.name} [${lane}]`,
+    execution: { ...scenario.execution, mode: "attach" },
+  };
+}
+
+/**
+ * `catchLines` become an `EXCEPT` branch that catches every failure;
+ * `undefined` omits the branch so errors propagate after `FINALLY`.
+ */
+function toTryBlockLines(
+  indent: string,
+  bodyLines: string[],
+  catchLines: string[] | undefined,
+  finallyLines: string[] | undefined,
+): string[] {
+  const bodyIndent = `${indent}    `;
+  const body = (lines: string[]) =>
+    lines.length > 0 ? lines : [`${bodyIndent}No Operation`];
+  return [
+    `${indent}TRY`,
+    ...body(bodyLines),
+    ...(catchLines ? [`${indent}EXCEPT`, ...body(catchLines)] : []),
+    ...(finallyLines ? [`${indent}FINALLY`, ...body(finallyLines)] : []),
+    `${indent}END`,
+  ];
+}
+
+function hasSteps(steps: ScenarioStep[] | undefined): steps is ScenarioStep[] {
+  return Array.isArray(steps) && steps.length > 0;
+}
+
+/** Robot rejects empty IF branches, so they get an explicit `No Operation`. */
+function nativeBody(lines: string[], depth: number): string[] {
+  return lines.length > 0 ? lines : [`${nativeIndent(depth)}No Operation`];
+}
+
+function nativeIndent(depth: number): string {
+  return "    ".repeat(depth + 1);
+}
+
+/**
+ * Escapes backslashes for Robot's own escape processing and rewrites
+ * `${a.b}` placeholders inside string literals to Robot item access.
+ */
+function toRobotExpressionCell(expression: string): string {
+  return toRobotVariableSyntax(expression.replaceAll("\\", "\\\\"));
+}
 
-  const pathValue = getPathValue(values, token);
-  if (pathValue !== undefined) {
-    return pathValue;
+function evaluateItemsExpression(
+  step: ScenarioStepControl,
+  values: Record<string, unknown>,
+): unknown[] {
+  const expression = step.items_expression;
+  if (!expression || expression.trim() === "") {
+    return [];
   }
 
-  return token;
+  const items = parseStepExpression(step, expression, parseItemsExpression).map(
+    (node) => evaluateStepExpression(step, expression, node, values),
+  );
+  return items.length > 1 ? items : toItemsList(items[0]);
 }
 
-function getPathValue(source: Record<string, unknown>, path: string): unknown {
-  const normalized = path.trim();
-  if (normalized === "") {
-    return undefined;
+function toItemsList(resolved: unknown): unknown[] {
+  if (Array.isArray(resolved)) {
+    return resolved;
+  }
+  if (resolved && typeof resolved === "object") {
+    return Object.values(resolved);
   }
-  const segments = normalized.split(".").filter((segment) => segment !== "");
-  let current: unknown = source;
-  for (const segment of segments) {
-    if (!current || typeof current !== "object") {
-      return undefined;
+  if (typeof resolved === "string") {
+    const trimmed = resolved.trim();
+    if (trimmed === "") {
+      return [];
     }
-    const record = current as Record<string, unknown>;
-    if (!(segment in record)) {
-      return undefined;
+    try {
+      const parsed = JSON.parse(trimmed) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // non-json list expression
     }
-    current = record[segment];
+    return trimmed
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part !== "");
+  }
+  if (resolved === undefined || resolved === null) {
+    return [];
   }
-  return current;
+  return [resolved];
 }
 
-function compareOperands(left: unknown, right: unknown): number {
-  const leftNumber = toFiniteNumber(left);
-  const rightNumber = toFiniteNumber(right);
-  if (leftNumber !== undefined && rightNumber !== undefined) {
-    return leftNumber === rightNumber ? 0 : leftNumber > rightNumber ? 1 : -1;
+function evaluateControlExpression(
+  step: ScenarioStepControl,
+  expression: string | undefined,
+  values: Record<string, unknown>,
+): boolean {
+  if (!expression || expression.trim() === "") {
+    return false;
   }
-  const leftText = String(left ?? "");
-  const rightText = String(right ?? "");
-  return leftText === rightText ? 0 : leftText > rightText ? 1 : -1;
+  const node = parseStepExpression(step, expression, parseControlExpression);
+  return isTruthy(evaluateStepExpression(step, expression, node, values));
 }
 
-function toFiniteNumber(value: unknown): number | undefined {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string" && value.trim() !== "") {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
+function parseStepExpression<T>(
+  step: ScenarioStepControl,
+  expression: string,
+  parse: (text: string) => T,
+): T {
+  try {
+    return parse(expression);
+  } catch (error) {
+    throw new Error(
+      `Invalid expression in step ${step.id}: ${error instanceof Error ? error.message : String(error)} (${expression.trim()})`,
+    );
   }
-  return undefined;
 }
 
-function isTruthy(value: unknown): boolean {
-  if (typeof value === "boolean") {
-    return value;
-  }
-  if (typeof value === "number") {
-    return value !== 0;
-  }
-  if (typeof value === "string") {
-    const normalized = value.trim().toLowerCase();
-    return normalized !== "" && normalized !== "false" && normalized !== "0";
-  }
-  if (Array.isArray(value)) {
-    return value.length > 0;
-  }
-  if (value && typeof value === "object") {
-    return Object.keys(value).length > 0;
+function evaluateStepExpression(
+  step: ScenarioStepControl,
+  expression: string,
+  node: ExpressionNode,
+  values: Record<string, unknown>,
+): unknown {
+  try {
+    return evaluateExpression(node, values);
+  } catch (error) {
+    throw new Error(
+      `Expression failed in step ${step.id}: ${error instanceof Error ? error.message : String(error)} (${expression.trim()})`,
+    );
   }
-  return Boolean(value);
 }
 
-function dedupeStepIds(steps: ScenarioStepAction[]): ScenarioStepAction[] {
-  const seen = new Map<string, number>();
-  return steps.map((step) => {
+function dedupeStepIds(
+  steps: ExpandedStep[],
+  seen: Map<string, number>,
+): ExpandedStep[] {
+  return steps.map((step): ExpandedStep => {
+    if (step.kind === "parallel") {
+      return {
+        ...step,
+        branches: step.branches.map((branch) => ({
+          ...branch,
+          steps: dedupeStepIds(branch.steps, seen),
+        })),
+      };
+    }
+    if (step.kind === "try") {
+      const dedupe = (nested: ExpandedStep[] | undefined) =>
+        nested && dedupeStepIds(nested, seen);
+      return {
+        ...step,
+        steps: dedupeStepIds(step.steps, seen),
+        catchSteps: dedupe(step.catchSteps),
+        finallySteps: dedupe(step.finallySteps),
+      };
+    }
     const baseId = sanitizeDynamicStepId(step.id);
     const next = (seen.get(baseId) ?? 0) + 1;
     seen.set(baseId, next);
@@ -578,8 +1465,38 @@ function sanitizeDynamicStepId(value: string): string {
   return normalized || "step";
 }
 
-function toWebStepLines(step: ScenarioStepAction): string[] {
+/**
+ * A drag source with several `web` candidates (`fallbacks`) resolves at run
+ * time to the first candidate that matches an element; step targets are
+ * handled by `withTargetFallbacks`.
+ */
+function toWebStepLines(
+  step: ScenarioStepAction,
+  backend: WebDriverBackend = "selenium",
+): string[] {
+  const resolveLines: string[] = [];
+  const timeoutSeconds = readTimingNumber(step, "timeout_seconds", 10);
+  const locate = (target: unknown, variable = "step_locator"): string => {
+    const locators = resolveWebLocators(target, backend);
+    if (locators.length === 1) {
+      return locators[0];
+    }
+    resolveLines.push(
+      `        \${${variable}}=    Resolve Web Locator    ${timeoutSeconds}s    ${locators.join("    ")}`,
+    );
+    return `\${${variable}}`;
+  };
+  const lines = toWebActionLines(step, backend, locate);
+  return [...resolveLines, ...lines];
+}
+
+function toWebActionLines(
+  step: ScenarioStepAction,
+  backend: WebDriverBackend,
+  locate: (target: unknown, variable?: string) => string,
+): string[] {
   ensureActionSupported(step, WEB_ACTIONS, "web");
+  const playwright = backend === "playwright";
   const id = toRobotCell(step.id);
   const title = toRobotCell(step.title);
   const description = toRobotOptionalCell(step.description ?? "");
@@ -594,7 +1511,7 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
     );
   }
   if (step.action === "click") {
-    const locator = resolveWebLocator(step.target);
+    const locator = locate(step.target);
     return withStaticAnnotations(
       [
         `        Doc Web Click Step    ${id}    ${title}    ${description}    ${locator}`,
@@ -603,7 +1520,7 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
     );
   }
   if (step.action === "double_click") {
-    const locator = resolveWebLocator(step.target);
+    const locator = locate(step.target);
     return withStaticAnnotations(
       [
         `        Doc Web Double Click Step    ${id}    ${title}    ${description}    ${locator}`,
@@ -612,7 +1529,7 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
     );
   }
   if (step.action === "right_click") {
-    const locator = resolveWebLocator(step.target);
+    const locator = locate(step.target);
     return withStaticAnnotations(
       [
         `        Doc Web Context Click Step    ${id}    ${title}    ${description}    ${locator}`,
@@ -621,10 +1538,11 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
     );
   }
   if (step.action === "drag_drop") {
-    const sourceLocator = resolveWebLocator(
+    const sourceLocator = locate(
       readNestedTarget(step.input, "source"),
+      "source_locator",
     );
-    const targetLocator = resolveWebLocator(step.target);
+    const targetLocator = locate(step.target);
     return withStaticAnnotations(
       [
         `        Doc Web Drag Step    ${id}    ${title}    ${description}    ${sourceLocator}    ${targetLocator}`,
@@ -633,22 +1551,25 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
     );
   }
   if (step.action === "type_text") {
-    const locator = resolveWebLocator(step.target);
+    const locator = locate(step.target);
     const text = requiredStringFromInput(step, "text");
     return withStaticAnnotations(
       [
-        `        Doc Web Step    ${id}    ${title}    ${description}    Input Text    ${locator}    ${text}`,
+        `        Doc Web Type Step    ${id}    ${title}    ${description}    ${locator}    ${text}    ${typedTextLabel(step, text)}${step.input?.secret === true ? "    secret=${TRUE}" : ""}`,
       ],
       step,
     );
   }
   if (step.action === "wait_for") {
     if (step.target) {
-      const locator = resolveWebLocator(step.target);
+      const locator = locate(step.target);
       const timeoutSeconds = readTimingNumber(step, "timeout_seconds", 10);
+      const wait = playwright
+        ? `Wait For Elements State    ${locator}    visible    timeout=${timeoutSeconds}s`
+        : `Wait Until Element Is Visible    ${locator}    ${timeoutSeconds}s`;
       return withStaticAnnotations(
         [
-          `        Doc Web Step    ${id}    ${title}    ${description}    Wait Until Element Is Visible    ${locator}    ${timeoutSeconds}s`,
+          `        Doc Web Step    ${id}    ${title}    ${description}    ${wait}`,
         ],
         step,
       );
@@ -664,7 +1585,7 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
   }
   if (step.action === "assert") {
     if (step.target) {
-      const locator = resolveWebLocator(step.target);
+      const locator = locate(step.target);
       return withStaticAnnotations(
         [
           `        Doc Web Assert Step    ${id}    ${title}    ${description}    ${locator}`,
@@ -675,9 +1596,12 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
 
     const text = readStringFromInput(step, "text");
     if (text !== "") {
+      const check = playwright
+        ? `Get Text    body    *=    ${toRobotCell(text)}`
+        : `Page Should Contain    ${toRobotCell(text)}`;
       return withStaticAnnotations(
         [
-          `        Doc Web Step    ${id}    ${title}    ${description}    Page Should Contain    ${toRobotCell(text)}`,
+          `        Doc Web Step    ${id}    ${title}    ${description}    ${check}`,
         ],
         step,
       );
@@ -685,13 +1609,100 @@ function toWebStepLines(step: ScenarioStepAction): string[] {
 
     throw new Error(`Step "${step.id}" assert requires target or input.text.`);
   }
+  if (step.action === "select_option") {
+    const locator = locate(step.target);
+    const by = ["label", "value", "index"].find(
+      (key) =>
+        step.input?.[key] !== undefined && `${step.input[key]}`.trim() !== "",
+    );
+    if (!by) {
+      throw new Error(
+        `Step "${step.id}" select_option requires input.label, input.value or input.index.`,
+      );
+    }
+    const option =
+      by === "index"
+        ? numberFromInput(step, "index", 0)
+        : requiredStringFromInput(step, by);
+    return withStaticAnnotations(
+      [
+        `        Doc Web Select Step    ${id}    ${title}    ${description}    ${locator}    ${by}    ${option}`,
+      ],
+      step,
+    );
+  }
+  if (step.action === "hover" || step.action === "scroll_to") {
+    const locator = locate(step.target);
+    const keyword =
+      step.action === "hover" ? "Doc Web Hover Step" : "Doc Web Scroll Step";
+    return withStaticAnnotations(
+      [
+        `        ${keyword}    ${id}    ${title}    ${description}    ${locator}`,
+      ],
+      step,
+    );
+  }
+  if (step.action === "upload_file") {
+    const locator = locate(step.target);
+    const path = requiredStringFromInput(step, "path");
+    return withStaticAnnotations(
+      [
+        `        Doc Web Upload Step    ${id}    ${title}    ${description}    ${locator}    ${path}`,
+      ],
+      step,
+    );
+  }
+  if (step.action === "check" || step.action === "uncheck") {
+    const locator = locate(step.target);
+    const checked = step.action === "check" ? "${TRUE}" : "${FALSE}";
+    return withStaticAnnotations(
+      [
+        `        Doc Web Check Step    ${id}    ${title}    ${description}    ${locator}    ${checked}`,
+      ],
+      step,
+    );
+  }
+  if (step.action === "switch_frame") {
+    if (playwright) {
+      throw new Error(
+        `Step "${step.id}" switch_frame is not supported by the playwright web backend; reach into frames with a ">>>" css selector instead.`,
+      );
+    }
+    if (!step.target) {
+      return withStaticAnnotations(
+        [
+          `        Doc Web Step    ${id}    ${title}    ${description}    Unselect Frame`,
+        ],
+        step,
+      );
+    }
+    const locator = locate(step.target);
+    return withStaticAnnotations(
+      [
+        `        Doc Web Frame Step    ${id}    ${title}    ${description}    ${locator}`,
+      ],
+      step,
+    );
+  }
+  if (step.action === "switch_window") {
+    const window = toRobotCell(readStringFromInput(step, "window") || "NEW");
+    return withStaticAnnotations(
+      [
+        `        Doc Web Window Step    ${id}    ${title}    ${description}    ${window}`,
+      ],
+      step,
+    );
+  }
   if (step.action === "press_keys") {
     const shortcut = readStringFromInput(step, "shortcut");
     const keys = readStringFromInput(step, "keys");
     const value = toRobotCell(shortcut || keys || "{ENTER}");
+    const press = playwright
+      ? `Keyboard Key    press    ${toPlaywrightKeys(value)}`
+      : `Press Keys    NONE    ${value}`;
     return withStaticAnnotations(
       [
-        `        Doc Web Step    ${id}    ${title}    ${description}    Press Keys    NONE    ${value}`,
+        `        Doc Web Step    ${id}    ${title}    ${description}    ${press}`,
       ],
       step,
     );
@@ -829,9 +1840,30 @@ function toUnityStepLines(step: ScenarioStepAction): string[] {
 
   if (step.action === "type_text") {
     const text = requiredStringFromInput(step, "text");
+    const label = typedTextLabel(step, text);
+    if (step.target) {
+      // Typing needs focus, so the field is clicked first; its box is annotated.
+      const selectorArgs = unitySelectorArgsFromCandidate(
+        selectTargetCandidate(
+          step.target,
+          new Set(["uia"]),
+          "type_text target",
+        ),
+      );
+      return withStaticAnnotations(
+        [
+          `        \${annotation}=    Click Unity Element${selectorArgs}`,
+          `        Type Unity Text    ${text}`,
+          `        Wait For Seconds    ${waitSecondsFromTiming(step, 0.0)}`,
+          `        Save Step Screenshot    ${id}`,
+          `        Emit Typed Text Annotations    ${label}    \${annotation}[box]`,
+        ],
+        step,
+      );
+    }
     return withStaticAnnotations(
       [
-        `        Doc Desktop Step    ${id}    ${title}    ${description}    Type Unity Text    ${text}`,
+        `        Doc Desktop Step    ${id}    ${title}    ${description}    Unity Type Text And Emit    ${text}    ${label}`,
       ],
       step,
     );
@@ -981,20 +2013,649 @@ function toUnityStepLines(step: ScenarioStepAction): string[] {
   throw new Error(`Unsupported unity action: ${step.action}`);
 }
 
-function withStaticAnnotations(
-  lines: string[],
-  step: ScenarioStepAction,
-): string[] {
-  const annotationLines = staticAnnotationLines(step);
-  if (annotationLines.length === 0) {
-    return lines;
-  }
-  return [...lines, ...annotationLines];
-}
+function toDesktopStepLines(step: ScenarioStepAction): string[] {
+  ensureActionSupported(step, DESKTOP_ACTIONS, "desktop");
+  const id = toRobotCell(step.id);
+  const title = toRobotCell(step.title);
+  const description = toRobotOptionalCell(step.description ?? "");
 
-function staticAnnotationLines(step: ScenarioStepAction): string[] {
-  if (!step.annotations || step.annotations.length === 0) {
-    return [];
+  if (
+    step.action === "click" ||
+    step.action === "double_click" ||
+    step.action === "right_click"
+  ) {
+    const candidate = selectTargetCandidate(
+      step.target,
+      new Set(["uia", "coordinate"]),
+      `${step.action} target`,
+    );
+    if (readTargetStrategy(candidate) === "uia") {
+      return withStaticAnnotations(
+        [
+          `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Click Element And Emit    ${desktopLocatorFromCandidate(candidate)}    ${step.action}    ${waitSecondsFromTiming(step, 0.0)}`,
+        ],
+        step,
+      );
+    }
+    const coordinate = requiredCoordinateFromCandidate(candidate);
+    return withStaticAnnotations(
+      [
+        `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Click Relative And Emit    ${coordinate.xRatio}    ${coordinate.yRatio}    ${step.action}    ${waitSecondsFromTiming(step, 0.8)}`,
+      ],
+      step,
+    );
+  }
+
+  if (step.action === "drag_drop") {
+    const source = selectTargetCandidate(
+      readNestedTarget(step.input, "source"),
+      new Set(["uia", "coordinate"]),
+      "drag_drop source",
+    );
+    const target = selectTargetCandidate(
+      step.target,
+      new Set(["uia", "coordinate"]),
+      "drag_drop target",
+    );
+    const sourceStrategy = readTargetStrategy(source);
+    const targetStrategy = readTargetStrategy(target);
+
+    if (sourceStrategy === "uia" && targetStrategy === "uia") {
+      return withStaticAnnotations(
+        [
+          `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Drag Element And Emit    ${desktopLocatorFromCandidate(source)}    ${desktopLocatorFromCandidate(target)}    ${waitSecondsFromTiming(step, 0.0)}`,
+        ],
+        step,
+      );
+    }
+
+    if (sourceStrategy === "coordinate" && targetStrategy === "coordinate") {
+      const sourceCoordinate = requiredCoordinateFromCandidate(source);
+      const targetCoordinate = requiredCoordinateFromCandidate(target);
+      return withStaticAnnotations(
+        [
+          `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Drag Relative And Emit    ${sourceCoordinate.xRatio}    ${sourceCoordinate.yRatio}    ${targetCoordinate.xRatio}    ${targetCoordinate.yRatio}    ${waitSecondsFromTiming(step, 0.8)}`,
+        ],
+        step,
+      );
+    }
+
+    throw new Error(
+      `Unsupported desktop drag_drop selector strategy pair: ${sourceStrategy} -> ${targetStrategy}`,
+    );
+  }
+
+  if (step.action === "type_text") {
+    const text = requiredStringFromInput(step, "text");
+    // RPA.Windows reads `{...}` as special keys; braces are typed literally
+    // except in `${...}` and `%{...}` references, which Robot resolves first.
+    const keys = text.replaceAll(/[$%]\{[^{}]*\}|[{}]/g, (match) =>
+      match.length === 1 ? `{${match}}` : match,
+    );
+    const label = typedTextLabel(step, text);
+    if (step.target) {
+      const candidate = selectTargetCandidate(
+        step.target,
+        new Set(["uia"]),
+        "type_text target",
+      );
+      return withStaticAnnotations(
+        [
+          `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Type Into Element And Emit    ${desktopLocatorFromCandidate(candidate)}    ${keys}    ${label}`,
+        ],
+        step,
+      );
+    }
+    return withStaticAnnotations(
+      [
+        `        Doc Desktop Step    ${id}    ${title}    ${description}    Desktop Type Text And Emit    ${keys}    ${label}`,
+      ],
+      step,
+    );
+  }
+
+  if (step.action === "wait_for" || step.action === "assert") {
+    if (step.target || step.action === "assert") {
+      const candidate = selectTargetCandidate(
+        step.target,
+        new Set(["uia"]),
+        `${step.action} target`,
+      );
+      const timeoutSeconds = readTimingNumber(step, "timeout_seconds", 10);
+      return withStaticAnnotations(
+        [
+          `        Doc Desktop Step    ${id}    ${title}    ${description}    Wait Until Keyword Succeeds    ${timeoutSeconds} sec    0.5 sec    RPA.Windows.Get Element    ${desktopLocatorFromCandidate(candidate)}`,
+        ],
+        step,
+      );
+    }
+
+    const seconds = numberFromInput(step, "seconds", 1);
+    return withStaticAnnotations(
+      [
+        `        Doc Desktop Step    ${id}    ${title}    ${description}    Sleep    ${seconds}`,
+      ],
+      step,
+    );
+  }
+
+  if (step.action === "press_keys") {
+    const shortcut = readStringFromInput(step, "shortcut");
+    const keys = shortcut
+      ? toWindowsShortcut(shortcut)
+      : readStringFromInput(step, "keys") || "{Enter}";
+    return withStaticAnnotations(
+      [
+        `        Doc Desktop Step    ${id}    ${title}    ${description}    RPA.Windows.Send Keys    keys=${toRobotCell(keys)}`,
+      ],
+      step,
+    );
+  }
+
+  return withStaticAnnotations(
+    [
+      `        Doc Desktop Step    ${id}    ${title}    ${description}    No Operation`,
+    ],
+    step,
+  );
+}
+
+/** uia selector -> RPA.Windows locator (`name:"Save As" and type:Button`). */
+function desktopLocatorFromCandidate(
+  candidate: Record<string, unknown>,
+): string {
+  const uia = candidate.uia;
+  if (!uia || typeof uia !== "object") {
+    throw new Error("uia target requires uia object.");
+  }
+  const selector = uia as Record<string, unknown>;
+  const strategies: Array<[string, string]> = [
+    ["title", "name"],
+    ["automation_id", "id"],
+    ["class_name", "class"],
+    ["control_type", "type"],
+    ["index", "index"],
+  ];
+  const parts: string[] = [];
+  for (const [key, strategy] of strategies) {
+    const value = selector[key];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const text = String(value).trim();
+    if (text === "") {
+      continue;
+    }
+    parts.push(`${strategy}:${/\s/.test(text) ? `"${text}"` : text}`);
+  }
+  if (parts.length === 0) {
+    throw new Error("uia selector requires at least one attribute.");
+  }
+  return toRobotCell(parts.join(" and "));
+}
+
+/** `CTRL+SHIFT+S` -> `{Ctrl}{Shift}s` in RPA.Windows key syntax. */
+function toWindowsShortcut(shortcut: string): string {
+  return shortcut
+    .split("+")
+    .map((part) => part.trim())
+    .filter((part) => part !== "")
+    .map((part) => {
+      const upper = part.toUpperCase();
+      if (upper === "CTRL" || upper === "CONTROL") {
+        return "{Ctrl}";
+      }
+      if (part.length === 1) {
+        return part.toLowerCase();
+      }
+      return `{${upper.charAt(0)}${upper.slice(1).toLowerCase()}}`;
+    })
+    .join("");
+}
+
+const TARGET_PROBES: Record<ScenarioDriver, string> = {
+  web: "Web Target Exists",
+  unity: "Unity Target Exists",
+  desktop: "Desktop Target Exists",
+};
+
+/** Target strategies each driver can probe as a fallback candidate. */
+const TARGET_CANDIDATE_STRATEGIES: Record<
+  ScenarioDriver,
+  ReadonlySet<string>
+> = {
+  web: new Set(["web"]),
+  unity: new Set(["uia", "unity_hierarchy", "coordinate"]),
+  desktop: new Set(["uia", "coordinate"]),
+};
+
+/**
+ * Steps whose target has several candidates the driver can render try them
+ * in order at run time: `Resolve Target Candidate` probes the candidates and
+ * records the match, and only that candidate's lines run. `select_hierarchy`
+ * keeps its own fallback keyword. Candidates with a strategy the driver
+ * cannot probe are skipped with a `target_candidate_skipped` warning.
+ */
+function withTargetFallbacks(
+  step: ScenarioStepAction,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+  render: (step: ScenarioStepAction) => string[],
+  warn: (warning: RobotSuiteWarning) => void,
+): string[] {
+  if (!step.target || step.action === "select_hierarchy") {
+    return render(step);
+  }
+  const collected: Array<Record<string, unknown>> = [];
+  collectTargetCandidates(step.target, collected, new Set());
+  const candidates: Array<{ descriptor: string; lines: string[] }> = [];
+  if (collected.length < 2) {
+    return render(step);
+  }
+  for (const [index, candidate] of collected.entries()) {
+    const target = Object.fromEntries(
+      Object.entries(candidate).filter(([key]) => key !== "fallbacks"),
+    );
+    const strategy = readTargetStrategy(target);
+    if (!TARGET_CANDIDATE_STRATEGIES[driver].has(strategy)) {
+      warn({
+        code: "target_candidate_skipped",
+        stepId: step.id,
+        message: `Step "${step.id}" skips target candidate ${index + 1} of ${collected.length}: ${driver} steps cannot use the ${strategy} strategy.`,
+      });
+      continue;
+    }
+    candidates.push({
+      descriptor: toTargetDescriptor(target, driver, backend),
+      lines: render({ ...step, target }),
+    });
+  }
+  if (candidates.length < 2) {
+    return render(step);
+  }
+  const timeoutSeconds = readTimingNumber(step, "timeout_seconds", 10);
+  return [
+    `        \${target_candidate}=    Resolve Target Candidate    ${timeoutSeconds}s    ${TARGET_PROBES[driver]}    ${candidates.map(({ descriptor }) => descriptor).join("    ")}`,
+    ...candidates.flatMap(({ lines }, index) => [
+      index === 0
+        ? "        IF    ${target_candidate} == 0"
+        : index === candidates.length - 1
+          ? "        ELSE"
+          : `        ELSE IF    \${target_candidate} == ${index}`,
+      ...lines.map((line) => `    ${line}`),
+    ]),
+    "        END",
+  ];
+}
+
+/**
+ * `Run Keyword And Return Status` call that is true while any candidate of a
+ * `while` step's target exists; candidates the driver cannot probe are
+ * skipped with a warning, as for action fallbacks.
+ */
+function toTargetProbeCall(
+  step: ScenarioStepControl,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+  warn: (warning: RobotSuiteWarning) => void,
+): string {
+  const collected: Array<Record<string, unknown>> = [];
+  collectTargetCandidates(step.target, collected, new Set());
+  const descriptors: string[] = [];
+  for (const [index, candidate] of collected.entries()) {
+    const target = Object.fromEntries(
+      Object.entries(candidate).filter(([key]) => key !== "fallbacks"),
+    );
+    const strategy = readTargetStrategy(target);
+    if (!TARGET_CANDIDATE_STRATEGIES[driver].has(strategy)) {
+      warn({
+        code: "target_candidate_skipped",
+        stepId: step.id,
+        message: `Step "${step.id}" skips target candidate ${index + 1} of ${collected.length}: ${driver} steps cannot use the ${strategy} strategy.`,
+      });
+      continue;
+    }
+    descriptors.push(toTargetDescriptor(target, driver, backend));
+  }
+  if (descriptors.length === 0) {
+    throw new Error(
+      `while target has no candidate the ${driver} driver can probe (${step.id})`,
+    );
+  }
+  return `Run Keyword And Return Status    First Matching Candidate    ${TARGET_PROBES[driver]}    ${descriptors.join("    ")}`;
+}
+
+/** Cell passed to the driver's target probe and recorded as the matched candidate. */
+function toTargetDescriptor(
+  candidate: Record<string, unknown>,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+): string {
+  if (driver === "web") {
+    return resolveWebLocator(candidate, backend);
+  }
+  const strategy = readTargetStrategy(candidate);
+  if (strategy === "uia") {
+    if (driver === "desktop") {
+      return `uia:${desktopLocatorFromCandidate(candidate)}`;
+    }
+    const selector = Object.fromEntries(
+      unitySelectorArgsFromCandidate(candidate)
+        .split("    ")
+        .filter((part) => part !== "")
+        .map((part) => [
+          part.slice(0, part.indexOf("=")),
+          part.slice(part.indexOf("=") + 1),
+        ]),
+    );
+    return `uia:${JSON.stringify(selector)}`;
+  }
+  if (strategy === "unity_hierarchy" && driver === "unity") {
+    return `hierarchy:${readUnityHierarchyPathFromCandidate(candidate)}`;
+  }
+  if (strategy === "coordinate") {
+    const coordinate = requiredCoordinateFromCandidate(candidate);
+    return `coordinate:${coordinate.xRatio},${coordinate.yRatio}`;
+  }
+  throw new Error(`Unsupported ${driver} target strategy: ${strategy}`);
+}
+
+/**
+ * Wraps the step lines in an attempt loop for `step.retry`
+ * (`attempts`, `interval_ms`, `on` glob patterns, `capture_attempts`).
+ * Errors not matching `on` fail the step immediately.
+ */
+function withRetry(step: ScenarioStepAction, lines: string[]): string[] {
+  const retry = step.retry;
+  if (!retry || retry.attempts === undefined) {
+    return lines;
+  }
+  const attempts = readRetryNumber(step, retry, "attempts", 1);
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new Error(`retry.attempts must be a positive integer: ${step.id}`);
+  }
+  if (attempts === 1) {
+    return lines;
+  }
+  const intervalMs = readRetryNumber(step, retry, "interval_ms", 1000);
+  if (intervalMs < 0) {
+    throw new Error(`retry.interval_ms must not be negative: ${step.id}`);
+  }
+  const on = retry.on ?? [];
+  if (
+    !Array.isArray(on) ||
+    on.some((pattern) => typeof pattern !== "string" || pattern === "")
+  ) {
+    throw new Error(`retry.on must be a list of error patterns: ${step.id}`);
+  }
+  const except =
+    on.length > 0
+      ? `EXCEPT    ${on.map((pattern) => toRobotCell(pattern)).join("    ")}    type=GLOB    AS    \${retry_error}`
+      : "EXCEPT    AS    ${retry_error}";
+  const captureAttempts =
+    retry.capture_attempts === true ? "${TRUE}" : "${FALSE}";
+  return [
+    `        FOR    \${retry_attempt}    IN RANGE    1    ${attempts + 1}`,
+    "            TRY",
+    ...lines.map((line) => `        ${line}`),
+    "                BREAK",
+    `            ${except}`,
+    `                Record Step Attempt Failure    ${toRobotCell(step.id)}    \${retry_attempt}    \${retry_error}    ${attempts}    ${intervalMs}    ${captureAttempts}`,
+    "            END",
+    "        END",
+  ];
+}
+
+function readRetryNumber(
+  step: ScenarioStepAction,
+  retry: Record<string, unknown>,
+  key: string,
+  fallback: number,
+): number {
+  const value = retry[key];
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+    throw new Error(`retry.${key} must be a number: ${step.id}`);
+  }
+  return parsed;
+}
+
+/**
+ * Turns `step.expect` postconditions into verification lines after the
+ * action, each followed by a `Step Expectation Passed` marker that the
+ * artifact converter attaches to the step. Target-valued checks accept
+ * `true` for the step target.
+ */
+function toExpectLines(
+  step: ScenarioStepAction,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+): string[] {
+  if (!step.expect) {
+    return [];
+  }
+  const id = toRobotCell(step.id);
+  const timeoutSeconds = readTimingNumber(step, "timeout_seconds", 10);
+  const lines: string[] = [];
+  for (const [check, value] of Object.entries(step.expect)) {
+    if (value === undefined || value === null || value === false) {
+      continue;
+    }
+    const target = (context: string) => {
+      const resolved = value === true ? step.target : value;
+      if (!resolved || typeof resolved !== "object") {
+        throw new Error(`expect.${check} requires a target: ${step.id}`);
+      }
+      return selectTargetCandidate(
+        resolved,
+        new Set([context]),
+        `expect.${check}`,
+      );
+    };
+    const text = () => {
+      if (typeof value !== "string" || value.trim() === "") {
+        throw new Error(
+          `expect.${check} must be a non-empty string: ${step.id}`,
+        );
+      }
+      return toRobotCell(value);
+    };
+    lines.push(
+      ...toExpectCheckLines(
+        step,
+        driver,
+        backend,
+        check,
+        target,
+        text,
+        timeoutSeconds,
+      ),
+      `        Step Expectation Passed    ${id}    ${check}`,
+    );
+  }
+  return lines;
+}
+
+function toExpectCheckLines(
+  step: ScenarioStepAction,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+  check: string,
+  target: (strategy: string) => Record<string, unknown>,
+  text: () => string,
+  timeoutSeconds: number,
+): string[] {
+  const playwright = backend === "playwright";
+  if (driver === "web") {
+    if (check === "visible" || check === "hidden") {
+      const locator = resolveWebLocator(target("web"), backend);
+      if (playwright) {
+        return [
+          `        Wait For Elements State    ${locator}    ${check}    timeout=${timeoutSeconds}s`,
+        ];
+      }
+      const keyword =
+        check === "visible"
+          ? "Wait Until Element Is Visible"
+          : "Wait Until Element Is Not Visible";
+      return [`        ${keyword}    ${locator}    ${timeoutSeconds}s`];
+    }
+    if (check === "text_contains") {
+      return [
+        playwright
+          ? `        Get Text    body    *=    ${text()}`
+          : `        Wait Until Page Contains    ${text()}    ${timeoutSeconds}s`,
+      ];
+    }
+    if (check === "url_matches") {
+      // Backslashes are escapes in Robot data, so regex escapes are doubled.
+      const pattern = text().replaceAll("\\", "\\\\");
+      return [
+        playwright
+          ? `        Get Url    matches    ${pattern}`
+          : `        Wait Until Location Matches    ${pattern}    ${timeoutSeconds}s`,
+      ];
+    }
+    if (check === "title_contains") {
+      return [
+        playwright
+          ? `        Get Title    *=    ${text()}`
+          : `        Wait Until Title Contains    ${text()}    ${timeoutSeconds}s`,
+      ];
+    }
+  }
+  if (driver === "unity") {
+    if (check === "exists") {
+      const selectorArgs = unitySelectorArgsFromCandidate(target("uia"));
+      return [
+        `        Wait For Unity Element${selectorArgs}    timeout_seconds=${timeoutSeconds}`,
+      ];
+    }
+    if (check === "selected_hierarchy") {
+      return [
+        `        Wait Until Keyword Succeeds    ${timeoutSeconds}s    0.5s    Unity Selected Hierarchy Should Be    ${text()}`,
+      ];
+    }
+  }
+  if (driver === "desktop" && check === "visible") {
+    return [
+      `        Wait Until Keyword Succeeds    ${timeoutSeconds}s    0.5s    RPA.Windows.Get Element    ${desktopLocatorFromCandidate(target("uia"))}`,
+    ];
+  }
+  throw new Error(
+    `Unsupported expect.${check} for ${driver} steps: ${step.id}`,
+  );
+}
+
+const CAPTURE_MODES = new Set(["element", "viewport", "full_page", "region"]);
+
+/**
+ * Turns `step.capture` into a `Set Step Capture` line; the next
+ * `Save Step Screenshot` of the step consumes it. Element captures default
+ * to the step target.
+ */
+function toStepCaptureLines(
+  step: ScenarioStepAction,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+): string[] {
+  const capture = step.capture;
+  if (!capture || capture.mode === undefined) {
+    return [];
+  }
+  const mode = String(capture.mode);
+  if (!CAPTURE_MODES.has(mode)) {
+    throw new Error(`Unsupported capture.mode "${mode}" in step: ${step.id}`);
+  }
+  const cells = [mode, driver];
+  if (mode === "element") {
+    cells.push(
+      `locator=${toCaptureLocator(step, capture.target ?? step.target, driver, backend)}`,
+    );
+  }
+  const padding = readCaptureNumber(step, capture, "padding", 0);
+  if (padding < 0) {
+    throw new Error(`capture.padding must not be negative: ${step.id}`);
+  }
+  if (padding > 0) {
+    cells.push(`padding=${padding}`);
+  }
+  if (mode === "region") {
+    const region = capture.region;
+    if (!region || typeof region !== "object") {
+      throw new Error(
+        `capture.mode "region" requires capture.region: ${step.id}`,
+      );
+    }
+    const values = ["x", "y", "width", "height"].map((key) =>
+      readCaptureNumber(step, region as Record<string, unknown>, key),
+    );
+    cells.push(`region=${values.join(",")}`);
+  }
+  return [`        Set Step Capture    ${cells.join("    ")}`];
+}
+
+function toCaptureLocator(
+  step: ScenarioStepAction,
+  target: unknown,
+  driver: ScenarioDriver,
+  backend: WebDriverBackend,
+): string {
+  if (!target) {
+    throw new Error(`capture.mode "element" requires a target: ${step.id}`);
+  }
+  if (driver === "web") {
+    return resolveWebLocator(target, backend);
+  }
+  if (driver === "desktop") {
+    return desktopLocatorFromCandidate(
+      selectTargetCandidate(target, new Set(["uia"]), "capture target"),
+    );
+  }
+  throw new Error(
+    `capture.mode "element" is not supported for unity steps: ${step.id}`,
+  );
+}
+
+function readCaptureNumber(
+  step: ScenarioStepAction,
+  source: Record<string, unknown>,
+  key: string,
+  fallback?: number,
+): number {
+  const value = source[key];
+  if (value === undefined && fallback !== undefined) {
+    return fallback;
+  }
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+    throw new Error(`capture.${key} must be a number: ${step.id}`);
+  }
+  return Math.round(parsed);
+}
+
+/** Label drawn next to a typed-into field; `input.secret` masks the value. */
+function typedTextLabel(step: ScenarioStepAction, text: string): string {
+  return step.input?.secret === true ? SECRET_MASK : text;
+}
+
+function withStaticAnnotations(
+  lines: string[],
+  step: ScenarioStepAction,
+): string[] {
+  const annotationLines = staticAnnotationLines(step);
+  if (annotationLines.length === 0) {
+    return lines;
+  }
+  return [...lines, ...annotationLines];
+}
+
+function staticAnnotationLines(step: ScenarioStepAction): string[] {
+  if (!step.annotations || step.annotations.length === 0) {
+    return [];
   }
   const payload = JSON.stringify(step.annotations).replaceAll(
     "'''",
@@ -1013,45 +2674,492 @@ function commonKeywordLines(): string[] {
     "    Create Directory    ${OUTPUT DIR}${/}screenshots",
     "    Create Directory    ${OUTPUT DIR}${/}robot",
     "",
-    "Doc Desktop Step",
-    "    [Arguments]    ${id}    ${title}    ${description}    ${keyword}    @{args}",
+    "Doc Desktop Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${keyword}    @{args}",
+    "    Ensure Artifact Directories",
+    "    Run Keyword    ${keyword}    @{args}",
+    "    Save Step Screenshot    ${id}",
+    "",
+    "Save Step Screenshot",
+    "    [Arguments]    ${id}",
+    "    ${capture}=    Set Variable    ${step_capture}",
+    "    Set Suite Variable    ${step_capture}    ${NONE}",
+    "    Emit Step Attempts",
+    "    Emit Step Target",
+    "    IF    not ${screenshot_enabled}",
+    "        RETURN",
+    "    END",
+    "    ${image_path}=    Set Variable    ${OUTPUT DIR}${/}screenshots${/}${id}.png",
+    "    IF    $capture is not None",
+    "        Save Step Capture    ${image_path}    ${capture}",
+    "        RETURN",
+    "    END",
+    "    Take Step Image    ${image_path}",
+    "",
+    "Take Step Image",
+    "    [Arguments]    ${image_path}",
+    "    IF    '${screenshot_source}' == 'page'",
+    "        ${filename}=    Evaluate    $image_path[:-4]",
+    "        Browser.Take Screenshot    filename=${filename}",
+    "    ELSE",
+    "        Screenshot.Take Screenshot    ${image_path}",
+    "    END",
+    "",
+    "Record Step Attempt Failure",
+    "    [Documentation]    Records a failed retry attempt, then fails on the last attempt or waits for the next one.",
+    "    [Arguments]    ${id}    ${attempt}    ${error}    ${attempts}    ${interval_ms}    ${capture_attempt}=${FALSE}",
+    "    Set Suite Variable    ${step_capture}    ${NONE}",
+    "    Set Suite Variable    ${step_target}    ${NONE}",
+    "    ${failure}=    Create Dictionary    attempt=${attempt}    error=${error}",
+    "    IF    ${capture_attempt} and ${screenshot_enabled}",
+    "        ${image_path}=    Set Variable    ${OUTPUT DIR}${/}screenshots${/}${id}--attempt-${attempt}.png",
+    "        ${status}    ${message}=    Run Keyword And Ignore Error    Take Step Image    ${image_path}",
+    "        IF    '${status}' == 'PASS'",
+    "            Set To Dictionary    ${failure}    imagePath=${image_path}",
+    "        END",
+    "    END",
+    "    ${failures}=    Evaluate    ($step_attempts or []) + [$failure]",
+    "    IF    int($attempt) >= int($attempts)",
+    "        Set Suite Variable    ${step_attempts}    ${NONE}",
+    "        Fail    ${error}",
+    "    END",
+    "    Set Suite Variable    ${step_attempts}    ${failures}",
+    "    Sleep    ${interval_ms}ms",
+    "",
+    "Emit Step Attempts",
+    "    ${failures}=    Set Variable    ${step_attempts}",
+    "    Set Suite Variable    ${step_attempts}    ${NONE}",
+    "    IF    not $failures",
+    "        RETURN",
+    "    END",
+    '    ${retry}=    Evaluate    {"attempts": len($failures) + 1, "failures": $failures}',
+    "    ${metadata}=    Create Dictionary    retry=${retry}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Resolve Target Candidate",
+    "    [Documentation]    Returns the index of the first target candidate found by ${probe}, polling until ${timeout}, and records the match for the step artifact.",
+    "    [Arguments]    ${timeout}    ${probe}    @{candidates}",
+    "    ${started}=    Evaluate    time.monotonic()    modules=time",
+    "    ${index}=    Wait Until Keyword Succeeds    ${timeout}    0.5s    First Matching Candidate    ${probe}    @{candidates}",
+    '    ${match}=    Evaluate    {"candidate": $index, "candidates": len($candidates), "value": $candidates[$index], "waitMs": round((time.monotonic() - $started) * 1000)}    modules=time',
+    "    Set Suite Variable    ${step_target}    ${match}",
+    "    RETURN    ${index}",
+    "",
+    "First Matching Candidate",
+    "    [Arguments]    ${probe}    @{candidates}",
+    "    FOR    ${index}    ${candidate}    IN ENUMERATE    @{candidates}",
+    "        ${found}=    Run Keyword    ${probe}    ${candidate}",
+    "        IF    ${found}",
+    "            RETURN    ${index}",
+    "        END",
+    "    END",
+    "    Fail    No target candidate found: ${candidates}",
+    "",
+    "Emit Step Target",
+    "    ${match}=    Set Variable    ${step_target}",
+    "    Set Suite Variable    ${step_target}    ${NONE}",
+    "    IF    $match is None",
+    "        RETURN",
+    "    END",
+    "    ${metadata}=    Create Dictionary    target=${match}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Step Expectation Passed",
+    "    [Arguments]    ${id}    ${check}",
+    "    Log    ${id}: ${check} verified",
+    "",
+    "Set Step Capture",
+    "    [Arguments]    ${mode}    ${driver}    ${locator}=${EMPTY}    ${padding}=0    ${region}=${EMPTY}",
+    "    ${capture}=    Create Dictionary    mode=${mode}    driver=${driver}    locator=${locator}    padding=${padding}",
+    "    IF    $region",
+    "        ${values}=    Evaluate    [int(value) for value in $region.split(',')]",
+    "        Set To Dictionary    ${capture}    region=${values}",
+    "    END",
+    "    Set Suite Variable    ${step_capture}    ${capture}",
+    "",
+    "Save Step Capture",
+    "    [Documentation]    Captures with the step's driver and records the image origin in annotation coordinates.",
+    "    [Arguments]    ${image_path}    ${capture}",
+    "    ${origin}=    Run Keyword    Capture ${capture}[driver] Image    ${image_path}    ${capture}",
+    "    IF    '${capture}[mode]' == 'region'",
+    '        ${box}=    Evaluate    [$origin["x"] + $capture["region"][0], $origin["y"] + $capture["region"][1], $capture["region"][2], $capture["region"][3]]',
+    "        ${origin}=    Crop Step Image    ${image_path}    ${origin}    ${box}",
+    "    END",
+    "    ${info}=    Create Dictionary    mode=${capture}[mode]    origin=${origin}",
+    "    ${metadata}=    Create Dictionary    capture=${info}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Crop Step Image",
+    "    [Documentation]    Crops to ${box} (x, y, width, height in annotation coordinates) plus ${padding} and returns the new origin.",
+    "    [Arguments]    ${image_path}    ${origin}    ${box}    ${padding}=0",
+    "    ${image}=    Evaluate    PIL.Image.open($image_path)    modules=PIL.Image",
+    '    ${left}=    Evaluate    max(0, int($box[0]) - int($padding) - $origin["x"])',
+    '    ${top}=    Evaluate    max(0, int($box[1]) - int($padding) - $origin["y"])',
+    '    ${right}=    Evaluate    min($image.width, int($box[0]) + int($box[2]) + int($padding) - $origin["x"])',
+    '    ${bottom}=    Evaluate    min($image.height, int($box[1]) + int($box[3]) + int($padding) - $origin["y"])',
+    "    ${cropped}=    Evaluate    $image.crop(($left, $top, $right, $bottom))",
+    "    Call Method    ${cropped}    save    ${image_path}",
+    '    ${cropped_origin}=    Evaluate    {"x": $origin["x"] + $left, "y": $origin["y"] + $top}',
+    "    RETURN    ${cropped_origin}",
+    "",
+    "Capture Screen Image",
+    "    [Arguments]    ${image_path}",
+    "    Screenshot.Take Screenshot    ${image_path}",
+    "    ${origin}=    Create Dictionary    x=${0}    y=${0}",
+    "    RETURN    ${origin}",
+    "",
+    "Emit Step Metadata",
+    "    [Arguments]    ${metadata}",
+    "    ${payload}=    Evaluate    json.dumps($metadata, ensure_ascii=False)    modules=json",
+    "    Log    DOCMETA:${payload}",
+    "",
+    "Emit Annotation Metadata",
+    "    [Arguments]    ${annotation}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Emit Typed Text Annotations",
+    "    [Documentation]    A label with the typed text, plus a highlight of the field when its box is known.",
+    "    [Arguments]    ${label}    ${box}=${NONE}",
+    "    IF    $box is None",
+    "        ${text_label}=    Create Dictionary    type=label    text=${label}",
+    "        ${annotations}=    Create List    ${text_label}",
+    "    ELSE",
+    "        ${highlight}=    Create Dictionary    type=highlight_box    box=${box}",
+    "        ${text_label}=    Create Dictionary    type=label    text=${label}    box=${box}",
+    "        ${annotations}=    Create List    ${highlight}    ${text_label}",
+    "    END",
+    "    Emit Annotation List Metadata    ${annotations}",
+    "",
+    "Emit Annotation List Metadata",
+    "    [Arguments]    ${annotations}",
+    "    ${metadata}=    Create Dictionary    annotations=${annotations}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Require Unity Project Path",
+    "    [Arguments]    ${project_path}",
+    "    ${normalized}=    Evaluate    str($project_path).strip()",
+    "    IF    '${normalized}' == ''",
+    "        Fail    unity_project_path is required when unity_execution_mode is launch.",
+    "    END",
+    "",
+    "Run Parallel Branches",
+    "    [Arguments]    @{suites}",
+    "    Import Library    Process",
+    "    Create Directory    ${OUTPUT DIR}${/}parallel",
+    "    ${python}=    Evaluate    sys.executable    modules=sys",
+    "    @{handles}=    Create List",
+    "    FOR    ${suite}    IN    @{suites}",
+    "        ${name}=    Evaluate    pathlib.Path($suite).stem    modules=pathlib",
+    "        ${handle}=    Start Process    ${python}    -m    robot    --outputdir    ${OUTPUT DIR}    --output    parallel${/}${name}.xml    --log    NONE    --report    NONE    ${suite}    stdout=${OUTPUT DIR}${/}parallel${/}${name}.log    stderr=STDOUT",
+    "        Append To List    ${handles}    ${handle}",
+    "    END",
+    "    @{failed}=    Create List",
+    "    FOR    ${suite}    ${handle}    IN ZIP    ${suites}    ${handles}",
+    "        ${result}=    Wait For Process    ${handle}",
+    "        IF    ${result.rc} != 0",
+    "            Append To List    ${failed}    ${suite}",
+    "        END",
+    "    END",
+    "    Should Be Empty    ${failed}    Parallel branches failed: ${failed}",
+    "",
+  ];
+}
+function webKeywordLines(): string[] {
+  return [
+    "Doc Web Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${keyword}    @{args}",
+    "    Ensure Artifact Directories",
+    "    Run Keyword    ${keyword}    @{args}",
+    "    Save Step Screenshot    ${id}",
+    "",
+    "Doc Web Click Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Click Element    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=click    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Double Click Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Double Click Element    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Context Click Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Open Context Menu    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Assert Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    Wait Until Element Is Visible    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "",
+    "Doc Web Drag Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${source_locator}    ${target_locator}",
+    "    Ensure Artifact Directories",
+    "    ${source}=    Get Element Screen Box    ${source_locator}",
+    "    ${target}=    Get Element Screen Box    ${target_locator}",
+    "    Drag And Drop    ${source_locator}    ${target_locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${from_point}=    Create Dictionary    x=${source}[4]    y=${source}[5]",
+    "    ${to_point}=    Create Dictionary    x=${target}[4]    y=${target}[5]",
+    "    ${annotation}=    Create Dictionary    type=drag_arrow    from=${from_point}    to=${to_point}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Type Step",
+    "    [Documentation]    Secret text goes through Input Password, which does not log the value.",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${text}    ${label}    ${secret}=${FALSE}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    IF    ${secret}",
+    "        Input Password    ${locator}    ${text}",
+    "    ELSE",
+    "        Input Text    ${locator}    ${text}",
+    "    END",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    Emit Typed Text Annotations    ${label}    ${box_dict}",
+    "",
+    "Doc Web Select Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${by}    ${option}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    IF    '${by}' == 'value'",
+    "        Select From List By Value    ${locator}    ${option}",
+    "    ELSE IF    '${by}' == 'index'",
+    "        Select From List By Index    ${locator}    ${option}",
+    "    ELSE",
+    "        Select From List By Label    ${locator}    ${option}",
+    "    END",
+    "    ${text}=    Get Selected List Label    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=label    text=${text}    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Hover Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    Mouse Over    ${locator}",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=highlight_box    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Scroll Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
     "    Ensure Artifact Directories",
-    "    Run Keyword    ${keyword}    @{args}",
+    "    Scroll Element Into View    ${locator}",
+    "    ${box}=    Get Element Screen Box    ${locator}",
     "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=highlight_box    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
     "",
-    "Save Step Screenshot",
-    "    [Arguments]    ${id}",
-    "    IF    not ${screenshot_enabled}",
-    "        RETURN",
-    "    END",
-    "    ${image_path}=    Set Variable    ${OUTPUT DIR}${/}screenshots${/}${id}.png",
-    "    Take Screenshot    ${image_path}",
+    "Doc Web Upload Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${path}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Choose File    ${locator}    ${path}",
+    "    ${file_name}=    Evaluate    os.path.basename($path)    modules=os",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=label    text=${file_name}    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
     "",
-    "Emit Step Metadata",
-    "    [Arguments]    ${metadata}",
-    "    ${payload}=    Evaluate    json.dumps($metadata, ensure_ascii=False)    modules=json",
-    "    Log    DOCMETA:${payload}",
+    "Doc Web Check Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${checked}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    IF    ${checked}",
+    "        Select Checkbox    ${locator}",
+    "    ELSE",
+    "        Unselect Checkbox    ${locator}",
+    "    END",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=click    box=${box_dict}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
     "",
-    "Emit Annotation Metadata",
-    "    [Arguments]    ${annotation}",
+    "Doc Web Frame Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Element Screen Box    ${locator}",
+    "    Select Frame    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
+    "    ${annotation}=    Create Dictionary    type=highlight_box    box=${box_dict}",
     "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
-    "Emit Annotation List Metadata",
-    "    [Arguments]    ${annotations}",
-    "    ${metadata}=    Create Dictionary    annotations=${annotations}",
+    "Doc Web Window Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${window}",
+    "    Ensure Artifact Directories",
+    "    Switch Window    ${window}",
+    "    ${page_title}=    Get Title",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=label    text=${page_title}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
-    "Require Unity Project Path",
-    "    [Arguments]    ${project_path}",
-    "    ${normalized}=    Evaluate    str($project_path).strip()",
-    "    IF    '${normalized}' == ''",
-    "        Fail    unity_project_path is required when unity_execution_mode is launch.",
+    "Capture Web Image",
+    "    [Documentation]    Element captures use SeleniumLibrary element screenshots; the origin is in screen coordinates like the annotation boxes.",
+    "    [Arguments]    ${image_path}    ${capture}",
+    "    ${viewport}=    Get Viewport Screen Origin",
+    '    ${origin}=    Evaluate    {"x": $viewport[0], "y": $viewport[1]}',
+    "    IF    '${capture}[mode]' == 'element'",
+    "        ${box}=    Get Element Screen Box    ${capture}[locator]",
+    '        IF    int($capture["padding"]) == 0',
+    "            Capture Element Screenshot    ${capture}[locator]    ${image_path}",
+    "            ${element_origin}=    Create Dictionary    x=${box}[0]    y=${box}[1]",
+    "            RETURN    ${element_origin}",
+    "        END",
+    "        Capture Page Screenshot    ${image_path}",
+    "        ${origin}=    Crop Step Image    ${image_path}    ${origin}    ${box}    ${capture}[padding]",
+    "    ELSE IF    '${capture}[mode]' == 'full_page'",
+    '        ${origin}=    Evaluate    {"x": $viewport[0] - $viewport[2], "y": $viewport[1] - $viewport[3]}',
+    "        Capture Full Page Screenshot    ${image_path}    ${viewport}",
+    "    ELSE",
+    "        Capture Page Screenshot    ${image_path}",
     "    END",
+    "    RETURN    ${origin}",
+    "",
+    "Capture Full Page Screenshot",
+    "    [Documentation]    Grows the window to the document size for the screenshot, then restores size and scroll position.",
+    "    [Arguments]    ${image_path}    ${viewport}",
+    "    ${window}=    Get Window Size",
+    "    ${size}=    Execute JavaScript    return [document.documentElement.scrollWidth + window.outerWidth - window.innerWidth, document.documentElement.scrollHeight + window.outerHeight - window.innerHeight];",
+    "    Set Window Size    ${size}[0]    ${size}[1]",
+    "    Execute JavaScript    window.scrollTo(0, 0);",
+    "    Capture Page Screenshot    ${image_path}",
+    "    Set Window Size    ${window}[0]    ${window}[1]",
+    "    Execute JavaScript    window.scrollTo(arguments[0], arguments[1]);    ARGUMENTS    ${viewport}[2]    ${viewport}[3]",
+    "",
+    "Wait Until Location Matches",
+    "    [Arguments]    ${pattern}    ${timeout}=10s",
+    "    Wait Until Keyword Succeeds    ${timeout}    0.5s    Location Should Match    ${pattern}",
+    "",
+    "Location Should Match",
+    "    [Arguments]    ${pattern}",
+    "    ${location}=    Get Location",
+    "    Should Match Regexp    ${location}    ${pattern}",
+    "",
+    "Wait Until Title Contains",
+    "    [Arguments]    ${text}    ${timeout}=10s",
+    "    Wait Until Keyword Succeeds    ${timeout}    0.5s    Title Should Contain    ${text}",
+    "",
+    "Title Should Contain",
+    "    [Arguments]    ${text}",
+    "    ${title}=    Get Title",
+    "    Should Contain    ${title}    ${text}",
+    "",
+    "Resolve Web Locator",
+    "    [Documentation]    Returns the first locator that matches an element, polling until ${timeout}.",
+    "    [Arguments]    ${timeout}    @{locators}",
+    "    ${index}=    Wait Until Keyword Succeeds    ${timeout}    0.5s    First Matching Candidate    Web Target Exists    @{locators}",
+    "    RETURN    ${locators}[${index}]",
+    "",
+    "Web Target Exists",
+    "    [Arguments]    ${locator}",
+    "    ${count}=    Get Element Count    ${locator}",
+    "    ${found}=    Evaluate    $count > 0",
+    "    RETURN    ${found}",
+    "",
+    "Get Viewport Screen Origin",
+    "    ${viewport}=    Execute JavaScript    const sx = window.screenX ?? window.screenLeft ?? 0; const sy = window.screenY ?? window.screenTop ?? 0; return [Math.round(sx + Math.max(0, (window.outerWidth - window.innerWidth) / 2)), Math.round(sy + Math.max(0, window.outerHeight - window.innerHeight)), Math.round(window.scrollX), Math.round(window.scrollY)];",
+    "    RETURN    ${viewport}",
+    "",
+    "Get Element Screen Box",
+    "    [Documentation]    SeleniumLibrary resolves the locator, including `within` chains joined by `>>`.",
+    "    [Arguments]    ${locator}",
+    "    ${element}=    Get WebElement    ${locator}",
+    "    ${box}=    Execute JavaScript    const el = arguments[0]; const rect = el.getBoundingClientRect(); const sx = window.screenX ?? window.screenLeft ?? 0; const sy = window.screenY ?? window.screenTop ?? 0; const viewportX = sx + Math.max(0, (window.outerWidth - window.innerWidth) / 2); const viewportY = sy + Math.max(0, window.outerHeight - window.innerHeight); return [Math.round(viewportX + rect.left), Math.round(viewportY + rect.top), Math.round(rect.width), Math.round(rect.height), Math.round(viewportX + rect.left + rect.width / 2), Math.round(viewportY + rect.top + rect.height / 2)];    ARGUMENTS    ${element}",
+    "    RETURN    ${box}",
     "",
   ];
 }
-function webKeywordLines(): string[] {
+
+/** `CTRL+S` -> `Control+S`, `{ENTER}` -> `Enter` (Playwright key names). */
+function toPlaywrightKeys(keys: string): string {
+  const names: Record<string, string> = {
+    CTRL: "Control",
+    CONTROL: "Control",
+    CMD: "Meta",
+    META: "Meta",
+    WIN: "Meta",
+    ESC: "Escape",
+    DEL: "Delete",
+    PGUP: "PageUp",
+    PGDN: "PageDown",
+    UP: "ArrowUp",
+    DOWN: "ArrowDown",
+    LEFT: "ArrowLeft",
+    RIGHT: "ArrowRight",
+  };
+  return keys
+    .replaceAll(/[{}]/g, "")
+    .split("+")
+    .map((part) => part.trim())
+    .filter((part) => part !== "")
+    .map((part) => {
+      const upper = part.toUpperCase();
+      if (names[upper]) {
+        return names[upper];
+      }
+      if (part.length === 1 || /^F\d{1,2}$/.test(upper)) {
+        return upper;
+      }
+      return `${upper.charAt(0)}${upper.slice(1).toLowerCase()}`;
+    })
+    .join("+");
+}
+
+function toPlaywrightBrowser(browser: string): string {
+  const normalized = browser.trim().toLowerCase();
+  if (
+    normalized === "chrome" ||
+    normalized === "edge" ||
+    normalized === "msedge"
+  ) {
+    return "chromium";
+  }
+  if (normalized === "safari") {
+    return "webkit";
+  }
+  return toRobotCell(normalized || "chromium");
+}
+
+/**
+ * Browser library versions of the `Doc Web *` keywords. Boxes come from
+ * `Get BoundingBox`, which is in the same viewport coordinates as the page
+ * screenshot, so annotations line up regardless of DPI or window chrome.
+ */
+function playwrightKeywordLines(): string[] {
   return [
     "Doc Web Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${keyword}    @{args}",
@@ -1062,59 +3170,177 @@ function webKeywordLines(): string[] {
     "Doc Web Click Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
     "    Ensure Artifact Directories",
-    "    ${box}=    Get Element Screen Box    ${locator}",
-    "    Click Element    ${locator}",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Click    ${locator}",
     "    Save Step Screenshot    ${id}",
-    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
-    "    ${annotation}=    Create Dictionary    type=click    box=${box_dict}",
+    "    ${annotation}=    Create Dictionary    type=click    box=${box}",
     "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
     "Doc Web Double Click Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
     "    Ensure Artifact Directories",
-    "    ${box}=    Get Element Screen Box    ${locator}",
-    "    Double Click Element    ${locator}",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Click With Options    ${locator}    left    clickCount=2",
     "    Save Step Screenshot    ${id}",
-    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
-    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box_dict}",
+    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box}",
     "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
     "Doc Web Context Click Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
     "    Ensure Artifact Directories",
-    "    ${box}=    Get Element Screen Box    ${locator}",
-    "    Open Context Menu    ${locator}",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Click    ${locator}    right",
     "    Save Step Screenshot    ${id}",
-    "    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]",
-    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box_dict}",
+    "    ${annotation}=    Create Dictionary    type=click_pulse    box=${box}",
     "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
     "Doc Web Assert Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
     "    Ensure Artifact Directories",
-    "    Wait Until Element Is Visible    ${locator}",
+    "    Wait For Elements State    ${locator}    visible",
     "    Save Step Screenshot    ${id}",
     "",
     "Doc Web Drag Step",
     "    [Arguments]    ${id}    ${title}    ${description}    ${source_locator}    ${target_locator}",
     "    Ensure Artifact Directories",
-    "    ${source}=    Get Element Screen Box    ${source_locator}",
-    "    ${target}=    Get Element Screen Box    ${target_locator}",
+    "    ${source}=    Get Page Box    ${source_locator}",
+    "    ${target}=    Get Page Box    ${target_locator}",
     "    Drag And Drop    ${source_locator}    ${target_locator}",
     "    Save Step Screenshot    ${id}",
-    "    ${from_point}=    Create Dictionary    x=${source}[4]    y=${source}[5]",
-    "    ${to_point}=    Create Dictionary    x=${target}[4]    y=${target}[5]",
+    '    ${from_point}=    Evaluate    {"x": $source["x"] + $source["width"] // 2, "y": $source["y"] + $source["height"] // 2}',
+    '    ${to_point}=    Evaluate    {"x": $target["x"] + $target["width"] // 2, "y": $target["y"] + $target["height"] // 2}',
     "    ${annotation}=    Create Dictionary    type=drag_arrow    from=${from_point}    to=${to_point}",
     "    ${metadata}=    Create Dictionary    annotation=${annotation}",
     "    Emit Step Metadata    ${metadata}",
     "",
-    "Get Element Screen Box",
+    "Doc Web Type Step",
+    "    [Documentation]    Secret text goes through Fill Secret, which reads the local ${text} variable by name and does not log it.",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${text}    ${label}    ${secret}=${FALSE}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    IF    ${secret}",
+    "        Fill Secret    ${locator}    $text",
+    "    ELSE",
+    "        Fill Text    ${locator}    ${text}",
+    "    END",
+    "    Save Step Screenshot    ${id}",
+    "    Emit Typed Text Annotations    ${label}    ${box}",
+    "",
+    "Doc Web Select Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${by}    ${option}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Select Options By    ${locator}    ${by}    ${option}",
+    "    ${selected}=    Get Selected Options    ${locator}    label",
+    "    ${text}=    Evaluate    $selected if isinstance($selected, str) else ', '.join($selected)",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=label    text=${text}    box=${box}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Hover Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    Hover    ${locator}",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=highlight_box    box=${box}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Scroll Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}",
+    "    Ensure Artifact Directories",
+    "    Scroll To Element    ${locator}",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=highlight_box    box=${box}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Upload Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${path}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    Upload File By Selector    ${locator}    ${path}",
+    "    ${file_name}=    Evaluate    os.path.basename($path)    modules=os",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=label    text=${file_name}    box=${box}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Check Step",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${locator}    ${checked}",
+    "    Ensure Artifact Directories",
+    "    ${box}=    Get Page Box    ${locator}",
+    "    IF    ${checked}",
+    "        Check Checkbox    ${locator}",
+    "    ELSE",
+    "        Uncheck Checkbox    ${locator}",
+    "    END",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=click    box=${box}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Doc Web Window Step",
+    "    [Documentation]    MAIN is the page opened by the suite setup; other values are passed to Switch Page (NEW or a page id).",
+    "    [Arguments]    ${id}    ${title}    ${description}    ${window}",
+    "    Ensure Artifact Directories",
+    "    IF    '${window}' == 'MAIN'",
+    "        Switch Page    ${main_page}[page_id]",
+    "    ELSE",
+    "        Switch Page    ${window}",
+    "    END",
+    "    ${page_title}=    Get Title",
+    "    Save Step Screenshot    ${id}",
+    "    ${annotation}=    Create Dictionary    type=label    text=${page_title}",
+    "    ${metadata}=    Create Dictionary    annotation=${annotation}",
+    "    Emit Step Metadata    ${metadata}",
+    "",
+    "Capture Web Image",
+    "    [Documentation]    The origin is in page viewport coordinates like the `Get Page Box` annotation boxes.",
+    "    [Arguments]    ${image_path}    ${capture}",
+    "    ${filename}=    Evaluate    $image_path[:-4]",
+    "    ${origin}=    Create Dictionary    x=${0}    y=${0}",
+    "    IF    '${capture}[mode]' == 'element'",
+    "        ${box}=    Get Page Box    ${capture}[locator]",
+    '        IF    int($capture["padding"]) == 0',
+    "            Browser.Take Screenshot    filename=${filename}    selector=${capture}[locator]",
+    "            ${element_origin}=    Create Dictionary    x=${box}[x]    y=${box}[y]",
+    "            RETURN    ${element_origin}",
+    "        END",
+    "        Browser.Take Screenshot    filename=${filename}",
+    '        ${crop_box}=    Evaluate    [$box["x"], $box["y"], $box["width"], $box["height"]]',
+    "        ${origin}=    Crop Step Image    ${image_path}    ${origin}    ${crop_box}    ${capture}[padding]",
+    "    ELSE IF    '${capture}[mode]' == 'full_page'",
+    "        ${scroll}=    Evaluate JavaScript    ${None}    () => [window.scrollX, window.scrollY]",
+    '        ${origin}=    Evaluate    {"x": -round($scroll[0]), "y": -round($scroll[1])}',
+    "        Browser.Take Screenshot    filename=${filename}    fullPage=True",
+    "    ELSE",
+    "        Browser.Take Screenshot    filename=${filename}",
+    "    END",
+    "    RETURN    ${origin}",
+    "",
+    "Resolve Web Locator",
+    "    [Documentation]    Returns the first locator that matches an element, polling until ${timeout}.",
+    "    [Arguments]    ${timeout}    @{locators}",
+    "    ${index}=    Wait Until Keyword Succeeds    ${timeout}    0.5s    First Matching Candidate    Web Target Exists    @{locators}",
+    "    RETURN    ${locators}[${index}]",
+    "",
+    "Web Target Exists",
+    "    [Arguments]    ${locator}",
+    "    ${count}=    Get Element Count    ${locator}",
+    "    ${found}=    Evaluate    $count > 0",
+    "    RETURN    ${found}",
+    "",
+    "Get Page Box",
     "    [Arguments]    ${locator}",
-    "    ${box}=    Execute JavaScript    const locator = arguments[0]; let el = null; if (locator.startsWith('css:')) { el = document.querySelector(locator.slice(4)); } else if (locator.startsWith('xpath:')) { const result = document.evaluate(locator.slice(6), document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null); el = result.singleNodeValue; } else { el = document.querySelector(locator); } if (!el) { return null; } const rect = el.getBoundingClientRect(); const sx = window.screenX ?? window.screenLeft ?? 0; const sy = window.screenY ?? window.screenTop ?? 0; const viewportX = sx + Math.max(0, (window.outerWidth - window.innerWidth) / 2); const viewportY = sy + Math.max(0, window.outerHeight - window.innerHeight); return [Math.round(viewportX + rect.left), Math.round(viewportY + rect.top), Math.round(rect.width), Math.round(rect.height), Math.round(viewportX + rect.left + rect.width / 2), Math.round(viewportY + rect.top + rect.height / 2)];    ARGUMENTS    ${locator}",
-    "    Should Not Be Equal    ${box}    ${None}",
+    "    ${bounding_box}=    Get BoundingBox    ${locator}",
+    "    ${box}=    Evaluate    {key: round(value) for key, value in $bounding_box.items()}",
     "    RETURN    ${box}",
     "",
   ];
@@ -1122,6 +3348,31 @@ function webKeywordLines(): string[] {
 
 function unityKeywordLines(): string[] {
   return [
+    "Unity Selected Hierarchy Should Be",
+    "    [Arguments]    ${expected_path}",
+    "    ${selected_hierarchy}=    Get Unity Selected Hierarchy Path",
+    "    Should Be Equal As Strings    ${selected_hierarchy}    ${expected_path}",
+    "",
+    "Unity Target Exists",
+    "    [Documentation]    Probes one target candidate; hierarchy candidates are probed by selecting them.",
+    "    [Arguments]    ${candidate}",
+    "    ${strategy}    ${value}=    Evaluate    $candidate.split(':', 1)",
+    "    IF    '${strategy}' == 'uia'",
+    "        ${selector}=    Evaluate    json.loads($value)    modules=json",
+    "        ${found}=    Run Keyword And Return Status    Wait For Unity Element    &{selector}    timeout_seconds=0.5",
+    "        RETURN    ${found}",
+    "    END",
+    "    IF    '${strategy}' == 'hierarchy'",
+    "        ${found}=    Run Keyword And Return Status    Select Unity Hierarchy Object    hierarchy_path=${value}    timeout_seconds=0.5",
+    "        RETURN    ${found}",
+    "    END",
+    "    RETURN    ${TRUE}",
+    "",
+    "Capture Unity Image",
+    "    [Arguments]    ${image_path}    ${capture}",
+    "    ${origin}=    Capture Screen Image    ${image_path}",
+    "    RETURN    ${origin}",
+    "",
     "Open Unity Top Menu With Fallbacks",
     "    [Arguments]    @{menu_paths}",
     "    ${last_error}=    Set Variable    ${EMPTY}",
@@ -1146,6 +3397,11 @@ function unityKeywordLines(): string[] {
     "    END",
     "    Fail    Failed to select Unity hierarchy object using candidates: ${last_error}",
     "",
+    "Unity Type Text And Emit",
+    "    [Arguments]    ${text}    ${label}",
+    "    Type Unity Text    ${text}",
+    "    Emit Typed Text Annotations    ${label}",
+    "",
     "Unity Click Relative And Emit",
     "    [Arguments]    ${x_ratio}    ${y_ratio}    ${box_width}=180    ${box_height}=48    ${wait_seconds}=0.8",
     "    ${annotation}=    Click Unity Relative    ${x_ratio}    ${y_ratio}    box_width=${box_width}    box_height=${box_height}",
@@ -1173,10 +3429,101 @@ function unityKeywordLines(): string[] {
   ];
 }
 
+function desktopKeywordLines(): string[] {
+  return [
+    "Desktop Click Element And Emit",
+    "    [Arguments]    ${locator}    ${action}=click    ${wait_seconds}=0.0",
+    "    ${element}=    RPA.Windows.Get Element    ${locator}",
+    "    IF    '${action}' == 'double_click'",
+    "        RPA.Windows.Double Click    ${element}",
+    "    ELSE IF    '${action}' == 'right_click'",
+    "        RPA.Windows.Right Click    ${element}",
+    "    ELSE",
+    "        RPA.Windows.Click    ${element}",
+    "    END",
+    "    Sleep    ${wait_seconds}",
+    "    ${type}=    Set Variable If    '${action}' == 'click'    click    click_pulse",
+    "    ${box}=    Create Dictionary    x=${element.left}    y=${element.top}    width=${element.width}    height=${element.height}",
+    "    ${annotation}=    Create Dictionary    type=${type}    box=${box}",
+    "    Emit Annotation Metadata    ${annotation}",
+    "",
+    "Desktop Click Relative And Emit",
+    "    [Arguments]    ${x_ratio}    ${y_ratio}    ${action}=click    ${wait_seconds}=0.8",
+    "    ${point}=    Get Desktop Window Point    ${x_ratio}    ${y_ratio}",
+    "    ${clicks}=    Set Variable If    '${action}' == 'double_click'    2    1",
+    "    ${button}=    Set Variable If    '${action}' == 'right_click'    right    left",
+    "    Evaluate    pyautogui.click($point[0], $point[1], clicks=int($clicks), button=$button)    modules=pyautogui",
+    "    Sleep    ${wait_seconds}",
+    "    ${type}=    Set Variable If    '${action}' == 'click'    click    click_pulse",
+    '    ${annotation}=    Evaluate    {"type": $type, "box": {"x": $point[0] - 90, "y": $point[1] - 24, "width": 180, "height": 48}}',
+    "    Emit Annotation Metadata    ${annotation}",
+    "",
+    "Desktop Drag Element And Emit",
+    "    [Arguments]    ${source_locator}    ${target_locator}    ${wait_seconds}=0.0",
+    "    ${source}=    RPA.Windows.Get Element    ${source_locator}",
+    "    ${target}=    RPA.Windows.Get Element    ${target_locator}",
+    "    RPA.Windows.Drag And Drop    ${source}    ${target}",
+    "    Sleep    ${wait_seconds}",
+    '    ${annotation}=    Evaluate    {"type": "drag_arrow", "from": {"x": $source.left + $source.width // 2, "y": $source.top + $source.height // 2}, "to": {"x": $target.left + $target.width // 2, "y": $target.top + $target.height // 2}}',
+    "    Emit Annotation Metadata    ${annotation}",
+    "",
+    "Desktop Drag Relative And Emit",
+    "    [Arguments]    ${from_x_ratio}    ${from_y_ratio}    ${to_x_ratio}    ${to_y_ratio}    ${wait_seconds}=0.8",
+    "    ${from}=    Get Desktop Window Point    ${from_x_ratio}    ${from_y_ratio}",
+    "    ${to}=    Get Desktop Window Point    ${to_x_ratio}    ${to_y_ratio}",
+    "    Evaluate    (pyautogui.moveTo($from[0], $from[1]), pyautogui.dragTo($to[0], $to[1], duration=0.5, button='left'))    modules=pyautogui",
+    "    Sleep    ${wait_seconds}",
+    '    ${annotation}=    Evaluate    {"type": "drag_arrow", "from": {"x": $from[0], "y": $from[1]}, "to": {"x": $to[0], "y": $to[1]}}',
+    "    Emit Annotation Metadata    ${annotation}",
+    "",
+    "Desktop Type Text And Emit",
+    "    [Arguments]    ${keys}    ${label}",
+    "    RPA.Windows.Send Keys    keys=${keys}",
+    "    Emit Typed Text Annotations    ${label}",
+    "",
+    "Desktop Type Into Element And Emit",
+    "    [Documentation]    Clicks the field for focus, types, and annotates the field box with the typed text.",
+    "    [Arguments]    ${locator}    ${keys}    ${label}",
+    "    ${element}=    RPA.Windows.Get Element    ${locator}",
+    "    RPA.Windows.Click    ${element}",
+    "    RPA.Windows.Send Keys    ${element}    keys=${keys}",
+    "    ${box}=    Create Dictionary    x=${element.left}    y=${element.top}    width=${element.width}    height=${element.height}",
+    "    Emit Typed Text Annotations    ${label}    ${box}",
+    "",
+    "Get Desktop Window Point",
+    "    [Arguments]    ${x_ratio}    ${y_ratio}",
+    "    ${window}=    RPA.Windows.Get Element    ${desktop_window}",
+    "    ${point}=    Evaluate    (round($window.left + $window.width * float($x_ratio)), round($window.top + $window.height * float($y_ratio)))",
+    "    RETURN    ${point}",
+    "",
+    "Desktop Target Exists",
+    "    [Arguments]    ${candidate}",
+    "    ${strategy}    ${value}=    Evaluate    $candidate.split(':', 1)",
+    "    IF    '${strategy}' == 'uia'",
+    "        ${found}=    Run Keyword And Return Status    RPA.Windows.Get Element    ${value}    timeout=0.5",
+    "        RETURN    ${found}",
+    "    END",
+    "    RETURN    ${TRUE}",
+    "",
+    "Capture Desktop Image",
+    "    [Documentation]    `viewport` is the scenario window; `full_page` and `region` start from the whole screen.",
+    "    [Arguments]    ${image_path}    ${capture}",
+    "    ${origin}=    Capture Screen Image    ${image_path}",
+    "    IF    '${capture}[mode]' == 'element' or '${capture}[mode]' == 'viewport'",
+    "        ${locator}=    Set Variable If    '${capture}[mode]' == 'element'    ${capture}[locator]    ${desktop_window}",
+    "        ${element}=    RPA.Windows.Get Element    ${locator}",
+    "        ${box}=    Evaluate    [$element.left, $element.top, $element.width, $element.height]",
+    "        ${origin}=    Crop Step Image    ${image_path}    ${origin}    ${box}    ${capture}[padding]",
+    "    END",
+    "    RETURN    ${origin}",
+    "",
+  ];
+}
+
 function ensureActionSupported(
   step: ScenarioStepAction,
   allowed: Set<string>,
-  target: "web" | "unity",
+  target: ScenarioDriver,
 ): void {
   if (!allowed.has(step.action)) {
     throw new Error(
@@ -1203,6 +3550,19 @@ function readBrowser(scenario: AutomationScenario): string {
   return fromMetadata || "chrome";
 }
 
+function readControlFlowMode(
+  scenario: AutomationScenario,
+  options: GenerateRobotSuiteOptions | undefined,
+): ControlFlowMode {
+  const mode =
+    options?.controlFlow ??
+    (readExecutionString(scenario, "control_flow").trim() || "unroll");
+  if (mode !== "unroll" && mode !== "native") {
+    throw new Error(`Unsupported execution.control_flow: ${mode}`);
+  }
+  return mode;
+}
+
 function readUnityExecutionMode(scenario: AutomationScenario): string {
   const executionMode = readExecutionString(scenario, "mode");
   if (executionMode) {
@@ -1249,6 +3609,110 @@ function readUnityWindowHint(scenario: AutomationScenario): string {
   return readMetadataString(scenario, "target_window_hint") || "Unity";
 }
 
+function readWebDriverBackend(scenario: AutomationScenario): WebDriverBackend {
+  const driver =
+    readExecutionString(scenario, "web_driver").trim() || "selenium";
+  if (driver !== "selenium" && driver !== "playwright") {
+    throw new Error(`Unsupported execution.web_driver: ${driver}`);
+  }
+  return driver;
+}
+
+function readDesktopWindowLocator(scenario: AutomationScenario): string {
+  const locator = readExecutionString(scenario, "window").trim();
+  if (locator) {
+    return locator;
+  }
+  const hint = readMetadataString(scenario, "target_window_hint").trim();
+  if (hint) {
+    return `subname:"${hint}"`;
+  }
+  throw new Error(
+    "Desktop steps require execution.window or metadata.target_window_hint.",
+  );
+}
+
+function readHybridDefaultDriver(
+  scenario: AutomationScenario,
+): ScenarioDriver | undefined {
+  const driver = readExecutionString(scenario, "default_driver").trim();
+  if (driver === "") {
+    return undefined;
+  }
+  if (driver !== "web" && driver !== "unity" && driver !== "desktop") {
+    throw new Error(`Unsupported execution.default_driver: ${driver}`);
+  }
+  return driver;
+}
+
+/**
+ * A hybrid step runs on its `driver`, else on the driver its target strategy
+ * or action implies, else on `execution.default_driver`.
+ */
+function resolveStepDriver(
+  step: Pick<ScenarioStepAction, "id" | "driver" | "target"> & {
+    action?: string;
+  },
+  defaultDriver: ScenarioDriver | undefined,
+): ScenarioDriver {
+  if (step.driver) {
+    return step.driver;
+  }
+  if (step.action === "open_url") {
+    return "web";
+  }
+  if (step.action === "open_menu" || step.action === "select_hierarchy") {
+    return "unity";
+  }
+  const strategy =
+    step.target && typeof step.target.strategy === "string"
+      ? step.target.strategy
+      : "";
+  if (strategy === "web") {
+    return "web";
+  }
+  if (strategy === "unity_hierarchy") {
+    return "unity";
+  }
+  if (defaultDriver) {
+    return defaultDriver;
+  }
+  throw new Error(
+    `Hybrid step "${step.id}" requires driver (web, unity or desktop) or execution.default_driver.`,
+  );
+}
+
+function collectScenarioDrivers(
+  scenario: AutomationScenario,
+): Set<ScenarioDriver> {
+  const defaultDriver = readHybridDefaultDriver(scenario);
+  const drivers = new Set<ScenarioDriver>();
+  const visit = (steps: ScenarioStep[] | undefined): void => {
+    for (const step of steps ?? []) {
+      if (step.kind === "action") {
+        drivers.add(resolveStepDriver(step, defaultDriver));
+      } else if (step.kind === "group") {
+        visit(step.steps);
+      } else if (step.kind === "control") {
+        if (step.control === "while" && step.target) {
+          drivers.add(resolveStepDriver(step, defaultDriver));
+        }
+        visit(step.steps);
+        visit(step.catch_steps);
+        visit(step.finally_steps);
+        for (const branch of step.branches ?? []) {
+          visit(branch.steps);
+        }
+      }
+    }
+  };
+  visit(scenario.steps);
+  for (const template of Object.values(scenario.templates ?? {})) {
+    visit(template.steps);
+  }
+  return drivers;
+}
+
 function readScreenshotOutputEnabled(scenario: AutomationScenario): boolean {
   const outputs = scenario.outputs;
   if (!outputs || typeof outputs !== "object") {
@@ -1476,54 +3940,171 @@ function selectTargetCandidates(
   );
 }
 
-function resolveWebLocator(target: unknown): string {
-  const candidate = selectTargetCandidate(target, new Set(["web"]), "web step");
+function resolveWebLocator(
+  target: unknown,
+  backend: WebDriverBackend = "selenium",
+): string {
+  return resolveWebLocators(target, backend)[0];
+}
+
+/** One locator per `web` candidate of the target and its `fallbacks`, in order. */
+function resolveWebLocators(
+  target: unknown,
+  backend: WebDriverBackend,
+): string[] {
+  const locators = selectTargetCandidates(
+    target,
+    new Set(["web"]),
+    "web step",
+  ).map((candidate) => toRobotCell(webCandidateLocator(candidate, backend)));
+  return [...new Set(locators)];
+}
+
+function webCandidateLocator(
+  candidate: Record<string, unknown>,
+  backend: WebDriverBackend,
+): string {
   const web = candidate.web;
   if (!web || typeof web !== "object") {
     throw new Error("web target requires web selector object.");
   }
   const selector = web as Record<string, unknown>;
+  const within =
+    selector.within === undefined
+      ? undefined
+      : resolveWebLocator(selector.within, backend);
+  const scoped = within !== undefined;
+  const engine = (kind: "css" | "xpath", value: string) =>
+    backend === "playwright" ? `${kind}=${value}` : `${kind}:${value}`;
 
-  const css = selector.css;
-  if (typeof css === "string" && css.trim() !== "") {
-    return toRobotCell(`css:${css}`);
+  let locator: string;
+  let xpath: string | undefined;
+  const css = readSelectorString(selector, "css");
+  const rawXpath = readSelectorString(selector, "xpath");
+  if (css !== "") {
+    locator = engine("css", css);
+  } else {
+    xpath =
+      rawXpath !== ""
+        ? scoped && rawXpath.startsWith("/")
+          ? `.${rawXpath}`
+          : rawXpath
+        : `${scoped ? ".//" : "//"}*[${webSelectorPredicates(selector).join(" and ")}]`;
+    locator = engine("xpath", xpath);
   }
 
-  const xpath = selector.xpath;
-  if (typeof xpath === "string" && xpath.trim() !== "") {
-    return toRobotCell(`xpath:${xpath}`);
+  const nth = selector.nth;
+  if (nth !== undefined) {
+    const index = Number(nth);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error(
+        `web selector nth must be a non-negative integer: ${String(nth)}`,
+      );
+    }
+    if (backend === "playwright") {
+      // Browser library `nth=` applies to the whole chain, like getByRole(...).nth().
+      return `${within ? `${within} >> ` : ""}${locator} >> nth=${index}`;
+    }
+    if (xpath === undefined) {
+      throw new Error(
+        "web selector nth with css requires the playwright web_driver.",
+      );
+    }
+    locator = engine("xpath", `(${xpath})[${index + 1}]`);
   }
+  return within ? `${within} >> ${locator}` : locator;
+}
 
-  const role = typeof selector.role === "string" ? selector.role.trim() : "";
-  const name = typeof selector.name === "string" ? selector.name.trim() : "";
-  const text = typeof selector.text === "string" ? selector.text.trim() : "";
-
-  if (text !== "" && role === "" && name === "") {
-    return toRobotCell(
-      `xpath://*[contains(normalize-space(.), ${escapeXpathLiteral(text)})]`,
+/**
+ * XPath predicates for the attribute-style selectors. `role` also matches
+ * elements whose implicit ARIA role is the requested one.
+ */
+function webSelectorPredicates(selector: Record<string, unknown>): string[] {
+  const predicates: string[] = [];
+  const role = readSelectorString(selector, "role");
+  if (role !== "") {
+    const literal = escapeXpathLiteral(role);
+    const implicit = IMPLICIT_ROLE_XPATH[role.toLowerCase()];
+    predicates.push(
+      implicit
+        ? `(@role=${literal} or (not(@role) and (${implicit})))`
+        : `@role=${literal}`,
     );
   }
-
-  if (role !== "" || name !== "" || text !== "") {
-    const predicates: string[] = [];
-    if (role !== "") {
-      predicates.push(`@role=${escapeXpathLiteral(role)}`);
-    }
-    if (name !== "") {
-      const escapedName = escapeXpathLiteral(name);
-      predicates.push(
-        `(@aria-label=${escapedName} or normalize-space(.)=${escapedName})`,
-      );
-    }
-    if (text !== "") {
-      predicates.push(
-        `contains(normalize-space(.), ${escapeXpathLiteral(text)})`,
-      );
+  const name = readSelectorString(selector, "name");
+  if (name !== "") {
+    const literal = escapeXpathLiteral(name);
+    predicates.push(
+      `(@aria-label=${literal} or normalize-space(.)=${literal} or (self::input and @value=${literal}))`,
+    );
+  }
+  const text = readSelectorString(selector, "text");
+  if (text !== "") {
+    predicates.push(
+      `contains(normalize-space(.), ${escapeXpathLiteral(text)})`,
+    );
+  }
+  const testId = readSelectorString(selector, "test_id");
+  if (testId !== "") {
+    predicates.push(`@data-testid=${escapeXpathLiteral(testId)}`);
+  }
+  const label = readSelectorString(selector, "label");
+  if (label !== "") {
+    const literal = escapeXpathLiteral(label);
+    predicates.push(
+      `(self::input or self::textarea or self::select) and (@id=//label[normalize-space(.)=${literal}]/@for or ancestor::label[contains(normalize-space(.), ${literal})] or @aria-label=${literal})`,
+    );
+  }
+  for (const key of ["placeholder", "alt", "title"]) {
+    const value = readSelectorString(selector, key);
+    if (value !== "") {
+      predicates.push(`@${key}=${escapeXpathLiteral(value)}`);
     }
-    return toRobotCell(`xpath://*[${predicates.join(" and ")}]`);
   }
+  if (predicates.length === 0) {
+    throw new Error(
+      "web selector requires css/xpath/role/name/text/test_id/label/placeholder/alt/title.",
+    );
+  }
+  return predicates;
+}
+
+/** Implicit ARIA roles of common HTML elements, as XPath self tests. */
+const IMPLICIT_ROLE_XPATH: Record<string, string> = {
+  button:
+    "self::button or self::summary or self::input[@type='button' or @type='submit' or @type='reset' or @type='image']",
+  link: "(self::a or self::area) and @href",
+  textbox:
+    "self::textarea or self::input[not(@type) or @type='text' or @type='email' or @type='tel' or @type='url']",
+  searchbox: "self::input[@type='search']",
+  checkbox: "self::input[@type='checkbox']",
+  radio: "self::input[@type='radio']",
+  slider: "self::input[@type='range']",
+  spinbutton: "self::input[@type='number']",
+  combobox: "self::select[not(@multiple)]",
+  listbox: "self::select[@multiple]",
+  option: "self::option",
+  heading:
+    "self::h1 or self::h2 or self::h3 or self::h4 or self::h5 or self::h6",
+  img: "self::img and not(@alt='')",
+  list: "self::ul or self::ol",
+  listitem: "self::li",
+  navigation: "self::nav",
+  main: "self::main",
+  dialog: "self::dialog",
+  form: "self::form",
+  table: "self::table",
+  row: "self::tr",
+  cell: "self::td",
+  columnheader: "self::th",
+};
 
-  throw new Error("web selector requires css/xpath/role/name/text.");
+function readSelectorString(
+  selector: Record<string, unknown>,
+  key: string,
+): string {
+  const value = selector[key];
+  return typeof value === "string" ? value.trim() : "";
 }
 
 function escapeXpathLiteral(value: string): string {
@@ -1662,9 +4243,13 @@ function toRobotOptionalCell(value: string): string {
 function interpolateString(
   text: string,
   values: Record<string, unknown>,
+  preserveUnknown = false,
 ): string {
   return text.replaceAll(/\$\{([a-zA-Z_][a-zA-Z0-9_.-]*)\}/g, (_, key) => {
     const value = getPathValue(values, key);
+    if (value === undefined && preserveUnknown) {
+      return toRobotVariable(String(key));
+    }
     if (value === undefined || value === null) {
       return "";
     }
@@ -1675,19 +4260,38 @@ function interpolateString(
   });
 }
 
-function resolveTemplate<T>(input: T, values: Record<string, unknown>): T {
+/** `${item.name}` -> `${item}[name]` (Robot item access on dicts and lists). */
+function toRobotVariable(path: string): string {
+  const [root, ...segments] = path.split(".");
+  return `\${${root}}${segments.map((segment) => `[${segment}]`).join("")}`;
+}
+
+function toRobotVariableSyntax(text: string): string {
+  return text.replaceAll(
+    /\$\{([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z0-9_-]+)+)\}/g,
+    (_, path) => toRobotVariable(String(path)),
+  );
+}
+
+function resolveTemplate<T>(
+  input: T,
+  values: Record<string, unknown>,
+  preserveUnknown = false,
+): T {
   if (typeof input === "string") {
-    return interpolateString(input, values) as T;
+    return interpolateString(input, values, preserveUnknown) as T;
   }
   if (Array.isArray(input)) {
-    return input.map((item) => resolveTemplate(item, values)) as T;
+    return input.map((item) =>
+      resolveTemplate(item, values, preserveUnknown),
+    ) as T;
   }
   if (input && typeof input === "object") {
     const output: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(
       input as Record<string, unknown>,
     )) {
-      output[key] = resolveTemplate(value, values);
+      output[key] = resolveTemplate(value, values, preserveUnknown);
     }
     return output as T;
   }
@@ -0,0 +1,350 @@
+import { readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+
+import {
+  type AutomationScenario,
+  type LoadScenarioOptions,
+  type ScenarioIssue,
+  type ScenarioIssueCode,
+  type ScenarioStep,
+  applyScenarioVariables,
+  collectScenarioIssues,
+  normalizeScenario,
+} from "./scenarioSpec.js";
+import {
+  type IncludedStepOrigin,
+  listIncludedFiles,
+} from "./scenarioIncludes.js";
+import {
+  type ScenarioSchemaIssueCode,
+  collectScenarioSchemaIssues,
+} from "./scenarioSchema.js";
+import {
+  type ScenarioSource,
+  escapePointerSegment,
+  parseScenarioSource,
+} from "./scenarioSource.js";
+import { loadVariableFiles } from "./scenarioVariables.js";
+import {
+  type ControlFlowMode,
+  type GenerateRobotSuiteOptions,
+  type RobotSuiteWarningCode,
+  generateRobotSuite,
+} from "./scenarioToRobot.js";
+
+export type ValidateScenarioCommandOptions = {
+  scenarioPath: string;
+  profile?: string;
+  variables?: Record<string, unknown>;
+  /** `.env` file whose entries set variables by id or `runtime.env` name. */
+  envFile?: string;
+  /** JSON or YAML map of variable values; `variables` entries win. */
+  variablesFile?: string;
+  failOnLoopLimit?: boolean;
+  controlFlow?: ControlFlowMode;
+};
+
+export type ScenarioDiagnosticCode =
+  | ScenarioIssueCode
+  | ScenarioSchemaIssueCode
+  | RobotSuiteWarningCode
+  | "read_failed"
+  | "parse_failed"
+  | "invalid_scenario"
+  | "variable_resolution_failed"
+  | "generation_failed";
+
+export type ScenarioDiagnostic = Omit<ScenarioIssue, "code"> & {
+  code: ScenarioDiagnosticCode;
+  line?: number;
+  column?: number;
+  /**
+   * Included file that `path`, `stepPath` and the position refer to, when
+   * the issue is in a step pulled in by an `include` step.
+   */
+  file?: string;
+  /** JSON pointer to the root-file `include` step that pulled the step in. */
+  includePath?: string;
+};
+
+export type ValidateScenarioResult = {
+  scenarioPath: string;
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: ScenarioDiagnostic[];
+};
+
+export type DiagnosticsFormat = "text" | "json";
+
+export async function validateScenarioCommand(
+  options: ValidateScenarioCommandOptions,
+): Promise<ValidateScenarioResult> {
+  const scenarioPath = resolve(options.scenarioPath);
+  const diagnostics = await collectCommandDiagnostics(scenarioPath, options);
+  const errors = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error",
+  ).length;
+  return {
+    scenarioPath,
+    valid: errors === 0,
+    errors,
+    warnings: diagnostics.length - errors,
+    diagnostics,
+  };
+}
+
+async function collectCommandDiagnostics(
+  scenarioPath: string,
+  options: ValidateScenarioCommandOptions,
+): Promise<ScenarioDiagnostic[]> {
+  let variableFiles: Awaited<ReturnType<typeof loadVariableFiles>>;
+  try {
+    variableFiles = await loadVariableFiles(options);
+  } catch (error) {
+    // File system errors carry a `code`; anything else failed to parse.
+    const unreadable = error instanceof Error && "code" in error;
+    return [rootError(unreadable ? "read_failed" : "parse_failed", error)];
+  }
+  return collectScenarioFileDiagnostics(scenarioPath, {
+    profile: options.profile,
+    ...variableFiles,
+    failOnLoopLimit: options.failOnLoopLimit,
+    controlFlow: options.controlFlow,
+  });
+}
+
+async function collectScenarioFileDiagnostics(
+  scenarioPath: string,
+  options: LoadScenarioOptions & GenerateRobotSuiteOptions,
+): Promise<ScenarioDiagnostic[]> {
+  let text: string;
+  try {
+    text = await readFile(scenarioPath, "utf8");
+  } catch (error) {
+    return [rootError("read_failed", error)];
+  }
+  let source: ScenarioSource;
+  try {
+    source = parseScenarioSource(text, scenarioPath);
+  } catch (error) {
+    return [rootError("parse_failed", error)];
+  }
+
+  const diagnostics: ScenarioDiagnostic[] = collectScenarioSchemaIssues(
+    source,
+  ).map((issue) => ({ ...issue, severity: "error" }));
+
+  let scenario: AutomationScenario;
+  const includeOrigins = new Map<string, IncludedStepOrigin>();
+  try {
+    scenario = normalizeScenario(
+      source.data as Record<string, unknown>,
+      scenarioPath,
+      includeOrigins,
+    );
+  } catch (error) {
+    return [...diagnostics, rootError("invalid_scenario", error)];
+  }
+  const locate = createIssueLocator(source, includeOrigins);
+
+  for (const [file, includePath] of listIncludedFiles(
+    includeOrigins,
+    scenarioPath,
+  )) {
+    const included = parseScenarioSource(readFileSync(file, "utf8"), file);
+    for (const issue of collectScenarioSchemaIssues(included)) {
+      diagnostics.push({ ...issue, severity: "error", file, includePath });
+    }
+  }
+
+  for (const issue of collectScenarioIssues(scenario)) {
+    diagnostics.push({ ...issue, ...locate(issue.path, issue.stepPath) });
+  }
+  if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+    return diagnostics;
+  }
+
+  let resolved: AutomationScenario;
+  try {
+    resolved = applyScenarioVariables(scenario, options);
+  } catch (error) {
+    return [...diagnostics, rootError("variable_resolution_failed", error)];
+  }
+
+  try {
+    const { warnings } = generateRobotSuite(resolved, options);
+    for (const warning of warnings) {
+      const stepPath = findStepPath(scenario, warning.stepId);
+      diagnostics.push({
+        path: stepPath ?? "",
+        severity: "warning",
+        code: warning.code,
+        message: warning.message,
+        stepPath,
+        stepId: warning.stepId,
+        ...(stepPath === undefined ? {} : locate(stepPath, stepPath)),
+      });
+    }
+  } catch (error) {
+    diagnostics.push(rootError("generation_failed", error));
+  }
+  return diagnostics;
+}
+
+/**
+ * Maps pointers in the normalized scenario back to the file they were
+ * written in. Steps from included files report that file, the pointer and
+ * position inside it, and the root-file `include` step.
+ */
+function createIssueLocator(
+  source: ScenarioSource,
+  includeOrigins: Map<string, IncludedStepOrigin>,
+): (
+  path: string,
+  stepPath: string | undefined,
+) => Pick<
+  ScenarioDiagnostic,
+  "path" | "stepPath" | "line" | "column" | "file" | "includePath"
+> {
+  const includedSources = new Map<string, ScenarioSource | undefined>();
+  const readIncludedSource = (file: string): ScenarioSource | undefined => {
+    if (!includedSources.has(file)) {
+      try {
+        includedSources.set(
+          file,
+          parseScenarioSource(readFileSync(file, "utf8"), file),
+        );
+      } catch {
+        includedSources.set(file, undefined);
+      }
+    }
+    return includedSources.get(file);
+  };
+  const findOrigin = (
+    path: string,
+  ): { origin: IncludedStepOrigin; rest: string } | undefined => {
+    for (let end = path.length; end > 0; end = path.lastIndexOf("/", end - 1)) {
+      const origin = includeOrigins.get(path.slice(0, end));
+      if (origin) {
+        return { origin, rest: path.slice(end) };
+      }
+    }
+    return undefined;
+  };
+
+  return (path, stepPath) => {
+    const found = findOrigin(path);
+    if (!found) {
+      return { path, stepPath, ...source.locate(path) };
+    }
+    const { origin, rest } = found;
+    const includedPath = `${origin.pointer}${rest}`;
+    const includedStep =
+      stepPath === undefined ? undefined : findOrigin(stepPath);
+    return {
+      path: includedPath,
+      stepPath:
+        includedStep === undefined
+          ? stepPath
+          : `${includedStep.origin.pointer}${includedStep.rest}`,
+      file: origin.sourcePath,
+      includePath: origin.includePath,
+      ...readIncludedSource(origin.sourcePath)?.locate(includedPath),
+    };
+  };
+}
+
+function findStepPath(
+  scenario: AutomationScenario,
+  stepId: string,
+): string | undefined {
+  const search = (
+    steps: ScenarioStep[] | undefined,
+    basePath: string,
+  ): string | undefined => {
+    for (const [index, step] of (steps ?? []).entries()) {
+      const path = `${basePath}/${index}`;
+      if (step.id === stepId) {
+        return path;
+      }
+      if (step.kind === "group") {
+        const nested = search(step.steps, `${path}/steps`);
+        if (nested) {
+          return nested;
+        }
+      }
+      if (step.kind === "control") {
+        for (const key of ["steps", "catch_steps", "finally_steps"] as const) {
+          const nested = search(step[key], `${path}/${key}`);
+          if (nested) {
+            return nested;
+          }
+        }
+        for (const [branchIndex, branch] of (step.branches ?? []).entries()) {
+          const nested = search(
+            branch.steps,
+            `${path}/branches/${branchIndex}/steps`,
+          );
+          if (nested) {
+            return nested;
+          }
+        }
+      }
+    }
+    return undefined;
+  };
+
+  return (
+    search(scenario.steps, "/steps") ??
+    Object.entries(scenario.templates ?? {})
+      .map(([name, template]) =>
+        search(
+          template.steps,
+          `/templates/${escapePointerSegment(name)}/steps`,
+        ),
+      )
+      .find((path) => path !== undefined)
+  );
+}
+
+function rootError(
+  code: ScenarioDiagnosticCode,
+  error: unknown,
+): ScenarioDiagnostic {
+  return {
+    path: "",
+    severity: "error",
+    code,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function formatDiagnostics(
+  result: ValidateScenarioResult,
+  format: DiagnosticsFormat,
+): string {
+  if (format === "json") {
+    return `${JSON.stringify(result, null, 2)}\n`;
+  }
+
+  const lines = [result.scenarioPath];
+  for (const diagnostic of result.diagnostics) {
+    const location = [
+      ...(diagnostic.file ? [basename(diagnostic.file)] : []),
+      ...(diagnostic.line !== undefined
+        ? [`${diagnostic.line}:${diagnostic.column ?? 1}`]
+        : []),
+    ].join(":");
+    const position = location ? `${location}  ` : "";
+    const include = diagnostic.includePath
+      ? `  included by ${diagnostic.includePath}`
+      : "";
+    lines.push(
+      `  ${position}${diagnostic.path || "/"}  ${diagnostic.severity}  ${diagnostic.message}  (${diagnostic.code})${include}`,
+    );
+  }
+  lines.push(`${result.errors} error(s), ${result.warnings} warning(s)`, "");
+  return lines.join("\n");
+}
@@ -0,0 +1,317 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import type { ScenarioVariable } from "./scenarioSpec.js";
+import { parseScenarioSource } from "./scenarioSource.js";
+
+export const SECRET_MASK = "••••";
+
+export function isSecretVariable(variable: ScenarioVariable): boolean {
+  return variable.secret === true || variable.type === "secret";
+}
+
+/**
+ * Where a variable value came from, in increasing precedence: default <
+ * profile < env file < `runtime.env` binding < vars file < `--var`.
+ */
+export type VariableSource =
+  | { kind: "default" }
+  | { kind: "profile"; name: string }
+  | { kind: "env_file"; key: string }
+  | { kind: "env"; name: string }
+  | { kind: "vars_file"; path: string }
+  | { kind: "cli" };
+
+export type VariableExplanation = {
+  id: string;
+  /** Final value after coercion; secrets are masked. */
+  value: unknown;
+  source: VariableSource;
+};
+
+export function describeVariableSource(source: VariableSource): string {
+  switch (source.kind) {
+    case "profile":
+      return `profile "${source.name}"`;
+    case "env_file":
+      return `env file entry "${source.key}"`;
+    case "env":
+      return `environment variable "${source.name}"`;
+    case "vars_file":
+      return `vars file "${source.path}"`;
+    case "cli":
+      return "CLI";
+    default:
+      return "default";
+  }
+}
+
+/** Environment variable named by `runtime.env`, if the variable declares one. */
+export function runtimeEnvironmentName(
+  variable: ScenarioVariable,
+): string | undefined {
+  const name = variable.runtime?.env;
+  return typeof name === "string" && name.trim() !== ""
+    ? name.trim()
+    : undefined;
+}
+
+/**
+ * Parses `.env` text: `KEY=value` lines with optional `export`, `#` comments
+ * and single- or double-quoted values (double quotes expand `\n`).
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  for (const [index, line] of lines.entries()) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      continue;
+    }
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(
+      trimmed,
+    );
+    if (!match) {
+      throw new Error(`Invalid env file line ${index + 1}: ${trimmed}`);
+    }
+    const [, key, raw] = match;
+    const quote = raw[0];
+    if ((quote === '"' || quote === "'") && raw.indexOf(quote, 1) > 0) {
+      const value = raw.slice(1, raw.indexOf(quote, 1));
+      values[key] =
+        quote === '"'
+          ? value.replaceAll("\\n", "\n").replaceAll("\\t", "\t")
+          : value;
+    } else {
+      values[key] = raw.replace(/\s+#.*$/, "");
+    }
+  }
+  return values;
+}
+
+export async function loadEnvFile(
+  path: string,
+): Promise<Record<string, string>> {
+  const text = await readFile(path, "utf8");
+  try {
+    return parseEnvFile(text);
+  } catch (error) {
+    throw new Error(
+      `${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Reads a JSON or YAML map of variable values. Nested objects and arrays are
+ * kept, so `for_each` can iterate `${browsers}` or `${matrix.browsers}`.
+ */
+export async function loadVariablesFile(
+  path: string,
+): Promise<Record<string, unknown>> {
+  const { data } = parseScenarioSource(await readFile(path, "utf8"), path);
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`Variables file must contain an object: ${path}`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Loads `--env-file` and `--vars-file` into scenario load options. `--var`
+ * values override entries from the variables file.
+ */
+export async function loadVariableFiles(options: {
+  variables?: Record<string, unknown>;
+  envFile?: string;
+  variablesFile?: string;
+}): Promise<{
+  variables?: Record<string, unknown>;
+  envFileVariables?: Record<string, string>;
+  varsFileVariables?: { path: string; values: Record<string, unknown> };
+}> {
+  const variablesPath = options.variablesFile
+    ? resolve(options.variablesFile)
+    : undefined;
+  return {
+    variables: options.variables,
+    varsFileVariables: variablesPath
+      ? { path: variablesPath, values: await loadVariablesFile(variablesPath) }
+      : undefined,
+    envFileVariables: options.envFile
+      ? await loadEnvFile(resolve(options.envFile))
+      : undefined,
+  };
+}
+
+export function formatVariableExplanation(
+  explanations: VariableExplanation[],
+): string {
+  const lines = ["Variables"];
+  for (const { id, value, source } of explanations) {
+    lines.push(
+      `  ${id} = ${typeof value === "string" ? value : JSON.stringify(value)}  (${describeVariableSource(source)})`,
+    );
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Converts a value to the variable's declared `type` and enforces its
+ * `validation` rules. `--var` values arrive as strings, so numbers, booleans,
+ * lists and JSON are parsed from text; unknown types are left untouched.
+ */
+export function coerceVariableValue(
+  variable: ScenarioVariable,
+  value: unknown,
+  source: VariableSource,
+): unknown {
+  const fail = (reason: string): never => {
+    throw new Error(
+      `Invalid value for variable "${variable.id}" from ${describeVariableSource(source)}: ${reason}`,
+    );
+  };
+  const formatValue = (shown: unknown): string =>
+    isSecretVariable(variable)
+      ? SECRET_MASK
+      : (JSON.stringify(shown) ?? String(shown));
+  const parseJson = (text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return fail(
+        isSecretVariable(variable) || !(error instanceof Error)
+          ? "invalid JSON"
+          : `invalid JSON (${error.message})`,
+      );
+    }
+  };
+  const validation = variable.validation ?? {};
+  const options = Array.isArray(validation.enum) ? validation.enum : undefined;
+
+  let coerced: unknown;
+  switch (variable.type) {
+    case "number":
+    case "integer": {
+      const parsed =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value.trim())
+          : value;
+      if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+        return fail(`expected a number, got ${formatValue(value)}`);
+      }
+      if (variable.type === "integer" && !Number.isInteger(parsed)) {
+        return fail(`expected an integer, got ${formatValue(value)}`);
+      }
+      coerced = parsed;
+      break;
+    }
+    case "boolean": {
+      const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+      if (typeof value !== "boolean" && text !== "true" && text !== "false") {
+        return fail(`expected true or false, got ${formatValue(value)}`);
+      }
+      coerced = typeof value === "boolean" ? value : text === "true";
+      break;
+    }
+    case "enum": {
+      if (!options) {
+        return fail("enum variables need validation.enum");
+      }
+      // CLI values are text, so `--var level=2` matches the option 2.
+      const match = options.find((option) => `${option}` === `${value}`);
+      if (match === undefined) {
+        return fail(
+          `expected one of ${options.map((option) => JSON.stringify(option)).join(", ")}, got ${formatValue(value)}`,
+        );
+      }
+      coerced = match;
+      break;
+    }
+    case "list": {
+      if (Array.isArray(value)) {
+        coerced = value;
+      } else if (typeof value === "string" && value.trim().startsWith("[")) {
+        coerced = parseJson(value);
+        if (!Array.isArray(coerced)) {
+          return fail(`expected a list, got ${formatValue(value)}`);
+        }
+      } else if (typeof value === "string") {
+        coerced =
+          value.trim() === ""
+            ? []
+            : value.split(",").map((item) => item.trim());
+      } else {
+        return fail(`expected a list, got ${formatValue(value)}`);
+      }
+      break;
+    }
+    case "json":
+      coerced = typeof value === "string" ? parseJson(value) : value;
+      break;
+    case "path":
+    case "url": {
+      if (typeof value !== "string" || value.trim() === "") {
+        return fail(`expected a ${variable.type}, got ${formatValue(value)}`);
+      }
+      if (variable.type === "url" && !URL.canParse(value.trim())) {
+        return fail(`expected an absolute URL, got ${formatValue(value)}`);
+      }
+      coerced = value.trim();
+      break;
+    }
+    default:
+      coerced = value;
+  }
+
+  if (options && !options.some((option) => `${option}` === `${coerced}`)) {
+    return fail(
+      `expected one of ${options.map((option) => JSON.stringify(option)).join(", ")}, got ${formatValue(value)}`,
+    );
+  }
+  if (typeof coerced === "number") {
+    if (typeof validation.min === "number" && coerced < validation.min) {
+      return fail(`${formatValue(coerced)} is less than min ${validation.min}`);
+    }
+    if (typeof validation.max === "number" && coerced > validation.max) {
+      return fail(
+        `${formatValue(coerced)} is greater than max ${validation.max}`,
+      );
+    }
+  }
+  if (typeof coerced === "string" || Array.isArray(coerced)) {
+    const unit = typeof coerced === "string" ? "characters" : "items";
+    if (
+      typeof validation.min_length === "number" &&
+      coerced.length < validation.min_length
+    ) {
+      return fail(
+        `has ${coerced.length} ${unit}, fewer than min_length ${validation.min_length}`,
+      );
+    }
+    if (
+      typeof validation.max_length === "number" &&
+      coerced.length > validation.max_length
+    ) {
+      return fail(
+        `has ${coerced.length} ${unit}, more than max_length ${validation.max_length}`,
+      );
+    }
+  }
+  if (typeof validation.pattern === "string" && typeof coerced === "string") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(validation.pattern);
+    } catch (error) {
+      return fail(
+        `invalid validation pattern ${validation.pattern}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (!pattern.test(coerced)) {
+      return fail(
+        `${formatValue(coerced)} does not match pattern ${validation.pattern}`,
+      );
+    }
+  }
+  return coerced;
+}
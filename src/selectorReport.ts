@@ -0,0 +1,173 @@
+import { readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+import type { DiagnosticsFormat } from "./scenarioValidation.js";
+import type { RunArtifacts } from "./types.js";
+
+export type SelectorReportCommandOptions = {
+  artifactDirs: string[];
+};
+
+export type SelectorReportStep = {
+  scenarioId: string;
+  stepId: string;
+  title: string;
+  /** Times the step appears across the runs (loops may repeat a step id). */
+  occurrences: number;
+  /** Matched target candidates by index; only steps with several candidates record one. */
+  matches: Array<{ candidate: number; value: string; count: number }>;
+  candidates?: number;
+  waitMs?: { average: number; max: number };
+  /** Extra attempts spent by `retry` policies, and in how many occurrences. */
+  retries: number;
+  retriedOccurrences: number;
+  /** The primary candidate never matched: every run fell through to a fallback. */
+  fallsThrough: boolean;
+};
+
+export type SelectorReport = {
+  runs: Array<{ artifactDir: string; scenarioId: string }>;
+  steps: SelectorReportStep[];
+  flagged: number;
+};
+
+export async function selectorReportCommand(
+  options: SelectorReportCommandOptions,
+): Promise<SelectorReport> {
+  if (options.artifactDirs.length === 0) {
+    throw new Error("At least one artifact directory is required");
+  }
+  const runs: Array<{ artifactDir: string; artifacts: RunArtifacts }> = [];
+  for (const dir of options.artifactDirs) {
+    const artifactDir = resolve(dir);
+    const stepsPath = join(artifactDir, "steps.json");
+    let text: string;
+    try {
+      text = await readFile(stepsPath, "utf8");
+    } catch {
+      throw new Error(`No steps.json in artifact directory: ${artifactDir}`);
+    }
+    let artifacts: RunArtifacts;
+    try {
+      artifacts = JSON.parse(text) as RunArtifacts;
+    } catch (error) {
+      throw new Error(
+        `Invalid steps.json in artifact directory: ${artifactDir} (${error instanceof Error ? error.message : String(error)})`,
+      );
+    }
+    if (!Array.isArray(artifacts?.steps)) {
+      throw new Error(
+        `Invalid steps.json in artifact directory: ${artifactDir} (steps must be an array)`,
+      );
+    }
+    runs.push({ artifactDir, artifacts });
+  }
+  return buildSelectorReport(runs);
+}
+
+export function buildSelectorReport(
+  runs: Array<{ artifactDir: string; artifacts: RunArtifacts }>,
+): SelectorReport {
+  const steps = new Map<string, SelectorReportStep>();
+  const waits = new Map<string, number[]>();
+
+  for (const { artifacts } of runs) {
+    for (const step of artifacts.steps) {
+      if (!step.target && !step.retry) {
+        continue;
+      }
+      const key = `${artifacts.scenarioId}\u0000${step.id}`;
+      const entry = steps.get(key) ?? {
+        scenarioId: artifacts.scenarioId,
+        stepId: step.id,
+        title: step.title,
+        occurrences: 0,
+        matches: [],
+        retries: 0,
+        retriedOccurrences: 0,
+        fallsThrough: false,
+      };
+      steps.set(key, entry);
+      entry.occurrences += 1;
+
+      if (step.retry && step.retry.attempts > 1) {
+        entry.retries += step.retry.attempts - 1;
+        entry.retriedOccurrences += 1;
+      }
+
+      if (step.target) {
+        const { candidate, candidates, value, waitMs } = step.target;
+        const match = entry.matches.find(
+          (item) => item.candidate === candidate && item.value === value,
+        );
+        if (match) {
+          match.count += 1;
+        } else {
+          entry.matches.push({ candidate, value, count: 1 });
+        }
+        entry.candidates = Math.max(entry.candidates ?? 0, candidates);
+        waits.set(key, [...(waits.get(key) ?? []), waitMs]);
+      }
+    }
+  }
+
+  for (const [key, entry] of steps) {
+    entry.matches.sort((a, b) => a.candidate - b.candidate);
+    entry.fallsThrough =
+      entry.matches.length > 0 &&
+      entry.matches.every((match) => match.candidate > 0);
+    const stepWaits = waits.get(key);
+    if (stepWaits) {
+      entry.waitMs = {
+        average: Math.round(
+          stepWaits.reduce((sum, wait) => sum + wait, 0) / stepWaits.length,
+        ),
+        max: Math.max(...stepWaits),
+      };
+    }
+  }
+
+  const reportSteps = [...steps.values()];
+  return {
+    runs: runs.map(({ artifactDir, artifacts }) => ({
+      artifactDir,
+      scenarioId: artifacts.scenarioId,
+    })),
+    steps: reportSteps,
+    flagged: reportSteps.filter((step) => step.fallsThrough).length,
+  };
+}
+
+export function formatSelectorReport(
+  report: SelectorReport,
+  format: DiagnosticsFormat,
+): string {
+  if (format === "json") {
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+
+  const lines = [`Selector report (${report.runs.length} run(s))`];
+  for (const step of report.steps) {
+    lines.push(`  ${step.scenarioId}/${step.stepId}  ${step.title}`);
+    for (const match of step.matches) {
+      lines.push(
+        `    candidate ${match.candidate + 1}/${step.candidates}  ${match.count}/${step.occurrences}  ${match.value}`,
+      );
+    }
+    if (step.waitMs) {
+      lines.push(
+        `    wait  avg ${step.waitMs.average} ms  max ${step.waitMs.max} ms`,
+      );
+    }
+    if (step.retries > 0) {
+      lines.push(
+        `    retries  ${step.retries} in ${step.retriedOccurrences}/${step.occurrences}`,
+      );
+    }
+    if (step.fallsThrough) {
+      lines.push("    warning  primary selector never matched");
+    }
+  }
+  lines.push(`${report.flagged} selector(s) always fell through`, "");
+  return lines.join("\n");
+}
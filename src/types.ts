@@ -56,6 +56,27 @@ export type AnnotationSpec =
       [key: string]: unknown;
     };
 
+export type StepCapture = {
+  mode: "element" | "viewport" | "full_page" | "region";
+  /** Top-left of the captured image in the coordinates of the step annotations. */
+  origin: Point;
+};
+
+export type StepRetry = {
+  /** Attempts made, including the one that passed. */
+  attempts: number;
+  failures: Array<{ attempt: number; error: string; imagePath?: string }>;
+};
+
+export type StepTargetMatch = {
+  /** 0-based index of the matched candidate among the driver's compatible candidates. */
+  candidate: number;
+  candidates: number;
+  /** Locator or descriptor of the matched candidate, e.g. `uia:{...}` or `coordinate:0.2,0.3`. */
+  value: string;
+  waitMs: number;
+};
+
 export type StepArtifact = {
   id: string;
   title: string;
@@ -65,6 +86,19 @@ export type StepArtifact = {
   annotations?: AnnotationSpec[];
   startedAtMs?: number;
   endedAtMs?: number;
+  /** Set for steps inside a scenario `try` block: which branch ran them. */
+  branch?: "try" | "catch" | "finally";
+  /** Set for steps run by a `parallel` branch; steps in different lanes may overlap in time. */
+  lane?: string;
+  /** Set when `step.capture` narrowed the screenshot; annotations are shifted by its origin. */
+  capture?: StepCapture;
+  /** Set when a `retry` policy needed more than one attempt; failed attempt images are not guide steps. */
+  retry?: StepRetry;
+  /** `expect` postconditions checked after the action; only passed checks are recorded. */
+  expectations?: Array<{ check: string; passed: boolean }>;
+  verified?: boolean;
+  /** Set when the step target had several candidates: which one matched at run time. */
+  target?: StepTargetMatch;
 };
 
 export type RunArtifacts = {
@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
 
-import { parseArgs, parseBooleanArg, parseVariableArg } from "../src/cli.js";
+import {
+  parseArgs,
+  parseBooleanArg,
+  parseControlFlowArg,
+  parseFormatArg,
+  parseVariableArg,
+} from "../src/cli.js";
 
 describe("cli argument parsing", () => {
   it("parses run-scenario options including profile and repeated vars", () => {
@@ -34,6 +40,63 @@ describe("cli argument parsing", () => {
     });
   });
 
+  it("parses validate output format and loop limit mode", () => {
+    expect(
+      parseArgs([
+        "--scenario",
+        "./web.scenario.json",
+        "--format",
+        "json",
+        "--fail-on-loop-limit",
+        "true",
+      ]),
+    ).toEqual({
+      scenarioPath: "./web.scenario.json",
+      format: "json",
+      failOnLoopLimit: true,
+      variables: {},
+    });
+    expect(() => parseFormatArg("xml")).toThrow("Invalid format value: xml");
+    expect(parseArgs(["--control-flow", "native"]).controlFlow).toBe("native");
+    expect(() => parseControlFlowArg("loop")).toThrow(
+      "Invalid control flow value: loop",
+    );
+  });
+
+  it("collects repeated selector-report artifact directories", () => {
+    expect(
+      parseArgs(["--artifacts", "./out/1", "--artifacts", "./out/2"]),
+    ).toEqual({ artifactDirs: ["./out/1", "./out/2"], variables: {} });
+    expect(() => parseArgs(["--artifacts"])).toThrow(
+      "Invalid --artifacts value: undefined",
+    );
+  });
+
+  it("parses env file, vars file and explain-vars options", () => {
+    expect(
+      parseArgs([
+        "--env-file",
+        "./ci.env",
+        "--vars-file",
+        "./matrix.yaml",
+        "--explain-vars",
+        "--var",
+        "a=1",
+      ]),
+    ).toEqual({
+      envFile: "./ci.env",
+      variablesFile: "./matrix.yaml",
+      explainVars: true,
+      variables: { a: "1" },
+    });
+    expect(() => parseArgs(["--env-file"])).toThrow(
+      "Invalid --env-file value: undefined",
+    );
+    expect(() => parseArgs(["--vars-file"])).toThrow(
+      "Invalid --vars-file value: undefined",
+    );
+  });
+
   it("rejects invalid boolean values", () => {
     expect(() => parseBooleanArg("yes")).toThrow("Invalid boolean value: yes");
   });
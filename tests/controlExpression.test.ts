@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  evaluateExpression,
+  interpolateExpression,
+  parseControlExpression,
+  parseItemsExpression,
+} from "../src/controlExpression.js";
+
+const evaluate = (text: string, values: Record<string, unknown> = {}) =>
+  evaluateExpression(parseControlExpression(text), values);
+
+describe("control expression", () => {
+  it("combines comparisons with && and || using precedence and parentheses", () => {
+    const values = { a: 1, b: 3, mode: "launch" };
+
+    expect(evaluate("${a} == 1 && ${b} != 2", values)).toBe(true);
+    expect(evaluate("${a} == 2 || ${b} > 2 && ${mode} == launch", values)).toBe(
+      true,
+    );
+    expect(
+      evaluate("(${a} == 2 || ${b} > 2) && !(${mode} == attach)", values),
+    ).toBe(true);
+    expect(evaluate("!${a} == 1", values)).toBe(false);
+  });
+
+  it("evaluates arithmetic, membership and built-in functions", () => {
+    const values = { parts: ["Ear_L", "Ear_R"], name: "Main Camera", i: 4 };
+
+    expect(evaluate("${i} * 2 + 1", values)).toBe(9);
+    expect(evaluate("${i} % 3 == 1", values)).toBe(true);
+    expect(evaluate('"Ear_L" in ${parts}', values)).toBe(true);
+    expect(evaluate('${parts} contains "Tail"', values)).toBe(false);
+    expect(evaluate("len(${parts}) == 2", values)).toBe(true);
+    expect(evaluate('lower(${name}) == "main camera"', values)).toBe(true);
+    expect(evaluate('startsWith(${name}, "Main")', values)).toBe(true);
+    expect(evaluate('matches(${name}, "^Main\\\\s")', values)).toBe(true);
+    expect(evaluate('"${name} #${i}"', values)).toBe("Main Camera #4");
+  });
+
+  it("treats unknown unquoted words as text", () => {
+    expect(evaluate('Main Camera == "Main Camera"')).toBe(true);
+    expect(evaluate("item.name", { item: { name: "cube" } })).toBe("cube");
+    expect(evaluate("${missing} == null")).toBe(true);
+  });
+
+  it("compares bare hyphenated, dotted and URL operands as text", () => {
+    const values = {
+      env: "web-admin",
+      ver: "1.2.3",
+      url: "https://x.com/login",
+    };
+
+    expect(evaluate("${env} == web-admin", values)).toBe(true);
+    expect(evaluate("${ver} == 1.2.3 && ${ver} != 1.2.4", values)).toBe(true);
+    expect(evaluate("${url} contains https://x.com", values)).toBe(true);
+    expect(evaluate("${env} == web-admin user", values)).toBe(false);
+    expect(evaluate("{mode: 3 - 1}", values)).toEqual({ mode: 2 });
+  });
+
+  it("reports parse errors with their column", () => {
+    expect(() => parseControlExpression("${a} == (1 + 2")).toThrow(
+      'Unexpected end of expression at column 15 (expected ")")',
+    );
+    expect(() => parseControlExpression("${a} === 1")).toThrow(
+      'Unexpected character "=" at column 8',
+    );
+    expect(() => parseControlExpression("size(${a})")).toThrow(
+      "Unknown function: size",
+    );
+    expect(() => evaluate('matches("x", "(")')).toThrow(
+      'Invalid matches() pattern "(": ',
+    );
+  });
+
+  it("parses comma-separated item lists", () => {
+    const items = parseItemsExpression("a, 2, ${x}").map((node) =>
+      evaluateExpression(node, { x: true }),
+    );
+    expect(items).toEqual(["a", 2, true]);
+  });
+
+  it("interpolates known variables as literals outside quotes", () => {
+    const values = { title: 'He said "hi" && left', count: 3, tags: ["a"] };
+
+    expect(
+      interpolateExpression(
+        '${title} == "${title}" && ${count} > 1 && ${item} in ${tags}',
+        values,
+      ),
+    ).toBe(
+      '"He said \\"hi\\" && left" == "He said \\"hi\\" && left" && 3 > 1 && ${item} in ["a"]',
+    );
+  });
+});
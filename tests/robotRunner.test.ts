@@ -5,6 +5,7 @@ import {
   buildConverterCommandArgs,
   buildRobotCommandArgs,
   isDrawableAnnotation,
+  toImageAnnotation,
   toTimelineEvents,
 } from "../src/robotRunner.js";
 
@@ -48,6 +49,7 @@ describe("robot runner command builders", () => {
     expect(withVideo).toContain("--video-path");
     expect(withVideo).toContain("D:/out/video/raw.mp4");
     expect(withoutVideo).not.toContain("--video-path");
+    expect(withoutVideo.slice(-2)).toEqual(["--secret-mask", "••••"]);
   });
 
   it("converts step timing and annotations into timeline events", () => {
@@ -117,4 +119,40 @@ describe("robot runner command builders", () => {
     ).toBe(true);
     expect(isDrawableAnnotation(undefined)).toBe(false);
   });
+
+  it("shifts annotations into cropped capture images only", () => {
+    const step: StepArtifact = {
+      id: "click",
+      title: "Click",
+      imagePath: "x.png",
+      capture: { mode: "element", origin: { x: 100, y: 40 } },
+      annotation: {
+        type: "click",
+        box: { x: 110, y: 50, width: 20, height: 10 },
+      },
+      startedAtMs: 0,
+      endedAtMs: 500,
+    };
+
+    expect(
+      toImageAnnotation(step, {
+        type: "click",
+        box: { x: 110, y: 50, width: 20, height: 10 },
+      }),
+    ).toEqual({ type: "click", box: { x: 10, y: 10, width: 20, height: 10 } });
+    expect(
+      toImageAnnotation(step, {
+        type: "drag_arrow",
+        from: { x: 100, y: 40 },
+        to: { x: 150, y: 90 },
+      }),
+    ).toEqual({
+      type: "drag_arrow",
+      from: { x: 0, y: 0 },
+      to: { x: 50, y: 50 },
+    });
+    expect(toTimelineEvents([step])[0]).toMatchObject({
+      box: { x: 110, y: 50 },
+    });
+  });
 });
@@ -1,11 +1,28 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 import { describe, expect, it } from "vitest";
 
 import {
   applyScenarioVariables,
+  collectScenarioIssues,
+  explainScenarioVariables,
+  loadScenarioFile,
   normalizeScenario,
+  resolveScenarioSecrets,
+  secretEnvironmentName,
   validateScenario,
   type AutomationScenario,
 } from "../src/scenarioSpec.js";
+import { generateRobotSuite } from "../src/scenarioToRobot.js";
+import {
+  coerceVariableValue,
+  describeVariableSource,
+  formatVariableExplanation,
+  loadVariableFiles,
+  parseEnvFile,
+} from "../src/scenarioVariables.js";
 
 describe("scenario spec variable resolution", () => {
   it("applies profile variables and runtime overrides", () => {
@@ -91,6 +108,306 @@ describe("scenario spec variable resolution", () => {
     );
   });
 
+  it("passes secret variables by environment reference and masks them in titles", () => {
+    const scenario: AutomationScenario = normalizeScenario(
+      {
+        schema_version: "2.0.0",
+        scenario_id: "secret-example",
+        name: "Secret Example",
+        target: "web",
+        metadata: {},
+        variables: [
+          { id: "user", type: "string", default: "admin" },
+          { id: "password", type: "secret", default: "hunter2" },
+          { id: "token", type: "string", secret: true, default: "abc" },
+          {
+            id: "account",
+            type: "json",
+            secret: true,
+            default: { pin: "4321" },
+          },
+        ],
+        steps: [
+          {
+            id: "type-user",
+            title: "Type user",
+            kind: "action",
+            action: "type_text",
+            input: { text: "${user}" },
+          },
+          {
+            id: "type-password",
+            title: "Type ${password} for ${user}",
+            kind: "action",
+            action: "type_text",
+            input: { text: "${password}" },
+          },
+          {
+            id: "type-token",
+            title: "Type token",
+            kind: "action",
+            action: "type_text",
+            input: { text: "Bearer ${token}" },
+          },
+          {
+            id: "type-pin",
+            title: "Type pin",
+            kind: "action",
+            action: "type_text",
+            input: { text: "PIN ${account.pin} for ${user}" },
+          },
+        ],
+      },
+      "D:/tmp/secret.scenario.json",
+    );
+
+    const resolved = applyScenarioVariables(scenario);
+    expect(
+      resolved.steps.map((step) =>
+        step.kind === "action" ? step.input : undefined,
+      ),
+    ).toEqual([
+      { text: "admin" },
+      { text: "%{SCENARIO_SECRET_PASSWORD}", secret: true },
+      { text: "Bearer %{SCENARIO_SECRET_TOKEN}", secret: true },
+      expect.objectContaining({ secret: true }),
+    ]);
+    expect(JSON.stringify(resolved.steps)).not.toContain("4321");
+    expect(resolved.steps[1].title).toBe("Type •••• for admin");
+    expect(JSON.stringify(resolved.steps)).not.toContain("hunter2");
+    expect(
+      resolveScenarioSecrets(scenario, { variables: { token: "xyz" } }),
+    ).toEqual({
+      SCENARIO_SECRET_PASSWORD: "hunter2",
+      SCENARIO_SECRET_TOKEN: "xyz",
+      SCENARIO_SECRET_ACCOUNT: '{"pin":"4321"}',
+    });
+  });
+
+  it("maps secret ids to underscored environment names and rejects collisions", () => {
+    const secretScenario = (variables: Record<string, unknown>[]) =>
+      normalizeScenario(
+        {
+          schema_version: "2.0.0",
+          scenario_id: "secret-names",
+          name: "Secret Names",
+          target: "web",
+          metadata: {},
+          variables,
+          steps: [
+            {
+              id: "open",
+              title: "Open",
+              kind: "action",
+              action: "open_url",
+              input: { url: "https://example.com" },
+            },
+          ],
+        },
+        "D:/tmp/secret-names.scenario.json",
+      );
+
+    expect(secretEnvironmentName("api-key")).toBe("SCENARIO_SECRET_API_KEY");
+    expect(
+      resolveScenarioSecrets(
+        secretScenario([{ id: "api-key", type: "secret", default: "s3cr3t" }]),
+      ),
+    ).toEqual({ SCENARIO_SECRET_API_KEY: "s3cr3t" });
+
+    const colliding = secretScenario([
+      { id: "api-key", type: "secret", default: "a" },
+      { id: "API_KEY", type: "secret", default: "b" },
+    ]);
+    expect(collectScenarioIssues(colliding)).toContainEqual(
+      expect.objectContaining({
+        code: "duplicate_secret_environment_name",
+        path: "/variables/1/id",
+      }),
+    );
+  });
+
+  it("coerces variables by declared type and enforces validation rules", () => {
+    const scenario: AutomationScenario = normalizeScenario(
+      {
+        schema_version: "2.0.0",
+        scenario_id: "typed-vars",
+        name: "Typed Variables",
+        target: "web",
+        metadata: {},
+        variables: [
+          {
+            id: "retries",
+            type: "integer",
+            default: 1,
+            validation: { min: 0, max: 5 },
+          },
+          { id: "headless", type: "boolean", default: false },
+          {
+            id: "level",
+            type: "enum",
+            default: "info",
+            validation: { enum: ["info", "debug", 2] },
+          },
+          { id: "tabs", type: "list", default: [] },
+          { id: "options", type: "json", default: {} },
+          { id: "home", type: "url", default: "https://example.com" },
+          {
+            id: "code",
+            type: "string",
+            default: "AB12",
+            validation: { pattern: "^[A-Z]{2}\\d+$", min_length: 3 },
+          },
+        ],
+        profiles: { ci: { variables: { retries: 9 } } },
+        steps: [
+          {
+            id: "loop",
+            title: "Tabs",
+            kind: "control",
+            control: "for_each",
+            items_expression: "${tabs}",
+            steps: [
+              {
+                id: "wait",
+                title: "Wait",
+                kind: "action",
+                action: "wait_for",
+                input: { seconds: "${retries}" },
+              },
+            ],
+          },
+        ],
+      },
+      "D:/tmp/typed.scenario.json",
+    );
+
+    const resolved = applyScenarioVariables(scenario, {
+      variables: {
+        retries: "3",
+        headless: "TRUE",
+        level: "2",
+        tabs: "Scene, Game",
+        options: '{"zoom": 2}',
+      },
+    });
+    expect(resolved.steps[0]).toMatchObject({
+      items_expression: '["Scene","Game"]',
+    });
+
+    const fails = (variables: Record<string, unknown>, profile?: string) =>
+      expect(() => applyScenarioVariables(scenario, { variables, profile }));
+    fails({ retries: "3.5" }).toThrow(
+      'Invalid value for variable "retries" from CLI: expected an integer, got "3.5"',
+    );
+    fails({}, "ci").toThrow(
+      'Invalid value for variable "retries" from profile "ci": 9 is greater than max 5',
+    );
+    fails({ headless: "yes" }).toThrow("expected true or false");
+    fails({ level: "trace" }).toThrow(
+      'expected one of "info", "debug", 2, got "trace"',
+    );
+    fails({ options: "{zoom" }).toThrow(
+      'Invalid value for variable "options" from CLI: invalid JSON',
+    );
+    fails({ home: "example.com" }).toThrow("expected an absolute URL");
+    fails({ code: "ab1" }).toThrow('"ab1" does not match pattern');
+    fails({ code: "A1" }).toThrow("has 2 characters, fewer than min_length 3");
+    expect(() =>
+      coerceVariableValue(
+        { id: "tag", type: "string", validation: { pattern: "([a-z]" } },
+        "v1",
+        { kind: "cli" },
+      ),
+    ).toThrow(
+      'Invalid value for variable "tag" from CLI: invalid validation pattern ([a-z]: ',
+    );
+  });
+
+  it("layers env file, runtime.env bindings and --var over profiles", () => {
+    const scenario: AutomationScenario = normalizeScenario(
+      {
+        schema_version: "2.0.0",
+        scenario_id: "env-vars",
+        name: "Env Variables",
+        target: "web",
+        metadata: {},
+        variables: [
+          { id: "base_url", type: "string", default: "http://localhost" },
+          {
+            id: "password",
+            type: "string",
+            secret: true,
+            runtime: { env: "APP_PASSWORD" },
+          },
+          { id: "retries", type: "integer", default: 1 },
+          { id: "user", type: "string", runtime: { env: "APP_USER" } },
+        ],
+        profiles: { ci: { variables: { base_url: "https://ci", retries: 2 } } },
+        steps: [
+          {
+            id: "open",
+            title: "Open",
+            kind: "action",
+            action: "open_url",
+            input: { url: "${base_url}" },
+          },
+        ],
+      },
+      "D:/tmp/env.scenario.json",
+    );
+
+    const envFileVariables = parseEnvFile(
+      [
+        "# CI defaults",
+        "export retries=3",
+        "APP_PASSWORD='from file'",
+        'APP_USER="bot" # inline comment',
+        "",
+      ].join("\n"),
+    );
+    expect(envFileVariables).toEqual({
+      retries: "3",
+      APP_PASSWORD: "from file",
+      APP_USER: "bot",
+    });
+    expect(() => parseEnvFile("not a pair")).toThrow(
+      "Invalid env file line 1: not a pair",
+    );
+
+    const options = {
+      profile: "ci",
+      envFileVariables,
+      environment: { APP_PASSWORD: "hunter2" },
+      variables: { user: "admin" },
+    };
+    expect(explainScenarioVariables(scenario, options)).toEqual([
+      {
+        id: "base_url",
+        value: "https://ci",
+        source: { kind: "profile", name: "ci" },
+      },
+      {
+        id: "retries",
+        value: 3,
+        source: { kind: "env_file", key: "retries" },
+      },
+      {
+        id: "password",
+        value: "••••",
+        source: { kind: "env", name: "APP_PASSWORD" },
+      },
+      { id: "user", value: "admin", source: { kind: "cli" } },
+    ]);
+    expect(resolveScenarioSecrets(scenario, options)).toEqual({
+      SCENARIO_SECRET_PASSWORD: "hunter2",
+    });
+    expect(
+      formatVariableExplanation(
+        explainScenarioVariables(scenario, { ...options, environment: {} }),
+      ),
+    ).toContain('password = ••••  (env file entry "APP_PASSWORD")');
+  });
+
   it("normalizes control step with nested branches and loop metadata", () => {
     const scenario = normalizeScenario(
       {
@@ -157,3 +474,468 @@ describe("scenario spec variable resolution", () => {
     });
   });
 });
+
+describe("scenario spec issue collection", () => {
+  const brokenScenario = (): AutomationScenario => ({
+    schema_version: "2.0.0",
+    scenario_id: "broken",
+    name: "Broken",
+    target: "unity",
+    metadata: {},
+    variables: [],
+    steps: [
+      {
+        id: "press",
+        title: "Press",
+        kind: "action",
+        action: "",
+      },
+      {
+        id: "setup",
+        title: "Setup",
+        kind: "group",
+        steps: [
+          {
+            id: "loop",
+            title: "Loop",
+            kind: "control",
+            control: "for_each",
+            items_expression: "a,b",
+            steps: [
+              {
+                id: "nested",
+                title: "Nested",
+                kind: "action",
+                action: " ",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  it("collects every issue with step path, step id and code", () => {
+    const issues = collectScenarioIssues(brokenScenario());
+
+    expect(
+      issues.map(({ code, stepPath, stepId }) => ({ code, stepPath, stepId })),
+    ).toEqual([
+      { code: "missing_action", stepPath: "/steps/0", stepId: "press" },
+      {
+        code: "missing_action",
+        stepPath: "/steps/1/steps/0/steps/0",
+        stepId: "nested",
+      },
+      {
+        code: "for_each_missing_item_variable",
+        stepPath: "/steps/1/steps/0",
+        stepId: "loop",
+      },
+    ]);
+    expect(issues[1].path).toBe("/steps/1/steps/0/steps/0/action");
+  });
+
+  it("throws an aggregated error listing every validation error", () => {
+    expect(() => validateScenario(brokenScenario())).toThrow(
+      [
+        "Scenario validation failed with 3 error(s):",
+        "  /steps/0/action: step.action is required: press",
+        "  /steps/1/steps/0/steps/0/action: step.action is required: nested",
+        "  /steps/1/steps/0/item_variable: for_each requires item_variable: loop",
+      ].join("\n"),
+    );
+  });
+
+  it("reports unknown templates and missing template parameters", () => {
+    const issues = collectScenarioIssues({
+      ...brokenScenario(),
+      templates: {
+        login: {
+          title: "Login",
+          parameters: ["user"],
+          steps: [
+            {
+              id: "type-user",
+              title: "Type ${user}",
+              kind: "action",
+              action: "type_text",
+            },
+          ],
+        },
+      },
+      steps: [
+        { id: "a", title: "A", kind: "use", template: "login", with: {} },
+        { id: "b", title: "B", kind: "use", template: "logout" },
+      ],
+    });
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: "/steps/0/with", code: "missing_template_parameter" },
+      { path: "/steps/1/template", code: "unknown_template" },
+    ]);
+  });
+});
+
+describe("scenario file loading", () => {
+  const writeScenarioFile = async (content: unknown): Promise<string> => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-load-"));
+    const path = join(dir, "strict.scenario.json");
+    await writeFile(path, JSON.stringify(content, null, 2), "utf8");
+    return path;
+  };
+
+  const scenarioWithTypos = {
+    schema_version: "2.0.0",
+    name: "Strict",
+    target: "web",
+    steps: [
+      {
+        id: "wait",
+        title: "Wait",
+        kind: "action",
+        action: "wait_for",
+        input: { seconds: 1 },
+        timeout: 5,
+      },
+      {
+        id: "loop",
+        title: "Loop",
+        kind: "control",
+        control: "for_each",
+        items_expression: "a,b",
+        item_variable: "item",
+        max_iterations: "3",
+        steps: [],
+      },
+    ],
+  };
+
+  it("rejects unknown keys and wrong types with line and column", async () => {
+    const path = await writeScenarioFile(scenarioWithTypos);
+
+    await expect(loadScenarioFile(path)).rejects.toThrow(
+      [
+        "Scenario schema validation failed with 2 error(s):",
+        '  strict.scenario.json:14:7 /steps/0/timeout: unknown key "timeout"',
+        "  strict.scenario.json:23:7 /steps/1/max_iterations: must be integer",
+      ].join("\n"),
+    );
+  });
+
+  it("skips schema validation when strict mode is disabled", async () => {
+    const path = await writeScenarioFile(scenarioWithTypos);
+
+    const scenario = await loadScenarioFile(path, { strict: false });
+
+    expect(scenario.scenario_id).toBe("strict");
+    expect(scenario.steps[0]).not.toHaveProperty("timeout");
+  });
+
+  const writeScenarioText = async (
+    name: string,
+    text: string,
+  ): Promise<string> => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-load-"));
+    const path = join(dir, name);
+    await writeFile(path, text, "utf8");
+    return path;
+  };
+
+  it("loads yaml scenarios with comments, block text and anchors", async () => {
+    const path = await writeScenarioText(
+      "editor-setup.scenario.yaml",
+      [
+        "# Shared Unity editor setup",
+        "schema_version: 2.0.0",
+        "name: Editor setup",
+        "target: unity",
+        "description: |",
+        "  Opens the project",
+        "  and selects the camera.",
+        "steps:",
+        "  - id: select-camera",
+        "    title: Select camera",
+        "    action: select_hierarchy",
+        "    target: &camera",
+        "      strategy: unity_hierarchy",
+        "      unity_hierarchy:",
+        "        path: Main Camera",
+        "  - id: check-camera",
+        "    title: Check camera",
+        "    action: assert",
+        "    target: *camera",
+      ].join("\n"),
+    );
+
+    const scenario = await loadScenarioFile(path);
+
+    expect(scenario.scenario_id).toBe("editor-setup");
+    expect(scenario.description).toBe(
+      "Opens the project\nand selects the camera.\n",
+    );
+    expect(scenario.steps[1]).toMatchObject({
+      action: "assert",
+      target: { unity_hierarchy: { path: "Main Camera" } },
+    });
+  });
+
+  it("merges a variables file with nested lists between environment bindings and --var", async () => {
+    const path = await writeScenarioText(
+      "matrix.scenario.yaml",
+      [
+        "schema_version: 2.0.0",
+        "name: Matrix",
+        "target: web",
+        "variables:",
+        "  - id: region",
+        "    type: string",
+        "  - id: channel",
+        "    type: string",
+        "    default: stable",
+        "    runtime:",
+        "      env: CHANNEL",
+        "steps:",
+        "  - id: browsers",
+        "    title: Browsers in ${region}",
+        "    kind: control",
+        "    control: for_each",
+        "    items_expression: ${matrix.browsers}",
+        "    item_variable: browser",
+        "    steps:",
+        "      - id: open",
+        "        title: Open ${browser.name}",
+        "        action: open_url",
+        "        input:",
+        "          url: https://example.com",
+      ].join("\n"),
+    );
+    const variablesFile = await writeScenarioText(
+      "ci.vars.yaml",
+      [
+        "region: us",
+        "channel: beta",
+        "matrix:",
+        "  browsers:",
+        "    - name: chromium, stable",
+        "    - name: firefox",
+      ].join("\n"),
+    );
+
+    const options = await loadVariableFiles({
+      variablesFile,
+      variables: { region: "eu" },
+    });
+    const scenario = await loadScenarioFile(path, options);
+
+    expect(scenario.steps[0]).toMatchObject({
+      title: "Browsers in eu",
+      items_expression: '[{"name":"chromium, stable"},{"name":"firefox"}]',
+    });
+    const { suite } = generateRobotSuite(scenario);
+    expect(suite).toContain("Open chromium, stable");
+    expect(suite).toContain("Open firefox");
+    expect(
+      explainScenarioVariables(scenario, {
+        ...options,
+        environment: { CHANNEL: "nightly" },
+      }).filter(({ id }) => id !== "matrix"),
+    ).toEqual([
+      {
+        id: "channel",
+        value: "beta",
+        source: { kind: "vars_file", path: variablesFile },
+      },
+      { id: "region", value: "eu", source: { kind: "cli" } },
+    ]);
+    expect(
+      describeVariableSource({ kind: "vars_file", path: variablesFile }),
+    ).toBe(`vars file "${variablesFile}"`);
+
+    const notAMap = await writeScenarioText("list.vars.json", "[1, 2]");
+    await expect(loadVariableFiles({ variablesFile: notAMap })).rejects.toThrow(
+      `Variables file must contain an object: ${notAMap}`,
+    );
+  });
+
+  it("reports yaml line numbers for syntax and schema errors", async () => {
+    const invalidSyntax = await writeScenarioText(
+      "broken.scenario.yml",
+      ["schema_version: 2.0.0", "name: [unclosed", "target: web"].join("\n"),
+    );
+    await expect(loadScenarioFile(invalidSyntax)).rejects.toThrow(
+      /^Invalid YAML in broken\.scenario\.yml:\d+:\d+: /,
+    );
+
+    const invalidSchema = await writeScenarioText(
+      "typo.scenario.yml",
+      [
+        "schema_version: 2.0.0",
+        "name: Typo",
+        "target: web",
+        "steps:",
+        "  - id: wait",
+        "    title: Wait",
+        "    action: wait_for",
+        "    tiemout: 5",
+      ].join("\n"),
+    );
+    await expect(loadScenarioFile(invalidSchema)).rejects.toThrow(
+      'typo.scenario.yml:8:5 /steps/0/tiemout: unknown key "tiemout"',
+    );
+  });
+});
+
+describe("scenario includes", () => {
+  const writeFiles = async (
+    files: Record<string, unknown>,
+  ): Promise<string> => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-include-"));
+    for (const [name, content] of Object.entries(files)) {
+      await writeFile(
+        join(dir, name),
+        typeof content === "string"
+          ? content
+          : JSON.stringify(content, null, 2),
+        "utf8",
+      );
+    }
+    return dir;
+  };
+
+  const editorLibrary = [
+    "schema_version: 2.0.0",
+    "name: Editor library",
+    "target: unity",
+    "variables:",
+    "  - id: object_path",
+    "    type: string",
+    "    default: Main Camera",
+    "steps:",
+    "  - id: editor-setup",
+    "    title: Editor setup",
+    "    kind: group",
+    "    steps:",
+    "      - id: open",
+    "        title: Open project",
+    "        action: open_project",
+    "        input:",
+    "          project_path: ${project_path}",
+    "      - id: select",
+    "        title: Select ${object_path}",
+    "        action: select_object",
+    "        target:",
+    "          strategy: unity_hierarchy",
+    "          unity_hierarchy:",
+    "            path: ${object_path}",
+  ].join("\n");
+
+  it("includes library groups with bindings, library variables and prefixed step ids", async () => {
+    const dir = await writeFiles({
+      "editor.library.yaml": editorLibrary,
+      "main.scenario.json": {
+        schema_version: "2.0.0",
+        name: "Main",
+        target: "unity",
+        variables: [{ id: "project_path", type: "string", default: "C:/p" }],
+        imports: [{ as: "editor", from: "./editor.library.yaml" }],
+        steps: [
+          {
+            id: "setup",
+            kind: "include",
+            import: "editor",
+            group: "editor-setup",
+          },
+          {
+            id: "setup-light",
+            kind: "include",
+            from: "editor.library.yaml",
+            group: "editor-setup",
+            variables: { object_path: "Directional Light" },
+          },
+        ],
+      },
+    });
+
+    const scenario = await loadScenarioFile(join(dir, "main.scenario.json"));
+
+    expect(scenario.steps).toHaveLength(2);
+    expect(scenario.steps[0]).toMatchObject({
+      id: "setup",
+      title: "Editor setup",
+      kind: "group",
+      steps: [
+        { id: "setup-open", input: { project_path: "C:/p" } },
+        {
+          id: "setup-select",
+          title: "Select Main Camera",
+          target: { unity_hierarchy: { path: "Main Camera" } },
+        },
+      ],
+    });
+    expect(scenario.steps[1]).toMatchObject({
+      id: "setup-light",
+      steps: [
+        { id: "setup-light-open" },
+        {
+          id: "setup-light-select",
+          target: { unity_hierarchy: { path: "Directional Light" } },
+        },
+      ],
+    });
+    expect(scenario.variables.map((variable) => variable.id)).toEqual([
+      "project_path",
+      "object_path",
+    ]);
+
+    const overridden = await loadScenarioFile(join(dir, "main.scenario.json"), {
+      variables: { object_path: "Cube" },
+    });
+    expect(overridden.steps[0]).toMatchObject({
+      steps: [{}, { title: "Select Cube" }],
+    });
+    expect(overridden.steps[1]).toMatchObject({
+      steps: [
+        {},
+        { target: { unity_hierarchy: { path: "Directional Light" } } },
+      ],
+    });
+  });
+
+  it("detects include cycles across files", async () => {
+    const dir = await writeFiles({
+      "a.scenario.json": {
+        schema_version: "2.0.0",
+        name: "A",
+        target: "web",
+        steps: [{ id: "to-b", kind: "include", from: "b.library.json" }],
+      },
+      "b.library.json": {
+        schema_version: "2.0.0",
+        name: "B",
+        target: "web",
+        steps: [{ id: "to-a", kind: "include", from: "a.scenario.json" }],
+      },
+    });
+
+    await expect(
+      loadScenarioFile(join(dir, "a.scenario.json")),
+    ).rejects.toThrow(
+      "Include cycle detected: a.scenario.json -> b.library.json -> a.scenario.json",
+    );
+
+    const self = await writeFiles({
+      "self.scenario.json": {
+        schema_version: "2.0.0",
+        name: "Self",
+        target: "web",
+        steps: [{ id: "again", kind: "include", from: "self.scenario.json" }],
+      },
+    });
+    await expect(
+      loadScenarioFile(join(self, "self.scenario.json")),
+    ).rejects.toThrow(
+      "Include cycle detected: self.scenario.json -> self.scenario.json",
+    );
+  });
+});
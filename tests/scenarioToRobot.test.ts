@@ -1,8 +1,18 @@
 import { describe, expect, it } from "vitest";
 
-import type { AutomationScenario } from "../src/scenarioSpec.js";
-import { normalizeScenario } from "../src/scenarioSpec.js";
-import { generateRobotSuiteFromScenario } from "../src/scenarioToRobot.js";
+import type {
+  AutomationScenario,
+  ScenarioStepAction,
+  ScenarioStepControl,
+} from "../src/scenarioSpec.js";
+import {
+  applyScenarioVariables,
+  normalizeScenario,
+} from "../src/scenarioSpec.js";
+import {
+  generateRobotSuite,
+  generateRobotSuiteFromScenario,
+} from "../src/scenarioToRobot.js";
 
 describe("scenario spec", () => {
   it("requires schema_version", () => {
@@ -179,6 +189,1295 @@ describe("scenario to robot", () => {
     expect(suite).toContain("Emit Annotation List Metadata");
   });
 
+  it("expands template uses with scoped parameters and titles", () => {
+    const scenario = applyScenarioVariables(
+      normalizeScenario(
+        {
+          schema_version: "2.0.0",
+          name: "Template Example",
+          target: "web",
+          metadata: { start_url: "https://example.com" },
+          variables: [
+            { id: "admin", type: "string", default: "root" },
+            { id: "user", type: "string", default: "ignored" },
+          ],
+          templates: {
+            login: {
+              title: "Sign in as ${user}",
+              parameters: ["user"],
+              steps: [
+                {
+                  id: "fill-user",
+                  title: "Type user",
+                  action: "type_text",
+                  target: { strategy: "web", web: { css: "#user" } },
+                  input: { text: "${user}" },
+                },
+              ],
+            },
+          },
+          steps: [
+            {
+              id: "login-admin",
+              kind: "use",
+              template: "login",
+              with: { user: "${admin}" },
+            },
+            {
+              id: "login-guest",
+              kind: "use",
+              template: "login",
+              with: { user: "guest" },
+            },
+          ],
+        },
+        "D:/tmp/template.scenario.json",
+      ),
+    );
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+
+    expect(suite).toContain(
+      "Doc Web Type Step    login-admin-fill-user    Sign in as root > Type user    ${EMPTY}    css:#user    root    root",
+    );
+    expect(suite).toContain(
+      "Doc Web Type Step    login-guest-fill-user    Sign in as guest > Type user    ${EMPTY}    css:#user    guest    guest",
+    );
+    expect(suite).not.toContain("ignored");
+  });
+
+  it("evaluates compound control expressions and names the step on parse errors", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "expression-example",
+      name: "Expression Example",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      steps: [
+        {
+          id: "loop-sizes",
+          title: "Loop Sizes",
+          kind: "control",
+          control: "for_each",
+          items_expression: "1, 2, 3",
+          item_variable: "size",
+          steps: [
+            {
+              id: "pick",
+              title: "Pick",
+              kind: "control",
+              control: "if",
+              branches: [
+                {
+                  when: "${size} * 2 > 2 && (${size} == 2 || len(${size}) == 1)",
+                  steps: [
+                    {
+                      id: "open-size",
+                      title: "Open ${size}",
+                      kind: "action",
+                      action: "open_menu",
+                      input: { menu_path: "Sizes/${size}" },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).not.toContain("Sizes/1");
+    expect(suite).toContain("Open Unity Top Menu    Sizes/2");
+    expect(suite).toContain("Open Unity Top Menu    Sizes/3");
+
+    const loop = scenario.steps[0] as ScenarioStepControl;
+    loop.steps = [
+      { ...loop.steps![0], branches: [{ when: "${size} ==", steps: [] }] },
+    ];
+    expect(() => generateRobotSuiteFromScenario(scenario)).toThrow(
+      "Invalid expression in step pick: Unexpected end of expression at column 11 (${size} ==)",
+    );
+
+    loop.steps = [
+      {
+        ...loop.steps![0],
+        branches: [{ when: 'matches("${size}", "[")', steps: [] }],
+      },
+    ];
+    expect(() => generateRobotSuiteFromScenario(scenario)).toThrow(
+      /^Expression failed in step pick: Invalid matches\(\) pattern "\[": .+ \(matches\("\$\{size\}", "\["\)\)$/,
+    );
+  });
+
+  it("returns warnings for while loops cut off at max_iterations", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "while-example",
+      name: "While Example",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      steps: [
+        {
+          id: "retry-save",
+          title: "Retry Save",
+          kind: "control",
+          control: "while",
+          expression: "true",
+          max_iterations: 2,
+          steps: [
+            {
+              id: "save",
+              title: "Save",
+              kind: "action",
+              action: "press_keys",
+              input: { shortcut: "CTRL+S" },
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = generateRobotSuite(scenario);
+    expect(result.suite).toContain("Doc Desktop Step    save-2    Save");
+    expect(result.warnings).toEqual([
+      {
+        code: "loop_limit_reached",
+        stepId: "retry-save",
+        message:
+          "while loop retry-save reached max_iterations (2) and its condition is still true; the body was unrolled 2 times.",
+      },
+    ]);
+    expect(() =>
+      generateRobotSuiteFromScenario(scenario, { failOnLoopLimit: true }),
+    ).toThrow("while loop retry-save reached max_iterations (2)");
+  });
+
+  it("renders try steps as Robot TRY/EXCEPT/FINALLY blocks", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "try-example",
+      name: "Try Example",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      steps: [
+        {
+          id: "save-safely",
+          title: "Save Safely",
+          kind: "control",
+          control: "try",
+          steps: [
+            {
+              id: "save",
+              title: "Save",
+              kind: "action",
+              action: "press_keys",
+              input: { shortcut: "CTRL+S" },
+            },
+          ],
+          catch_steps: [
+            {
+              id: "dismiss",
+              title: "Dismiss",
+              kind: "action",
+              action: "press_keys",
+              input: { shortcut: "ESC" },
+            },
+          ],
+          finally_steps: [
+            {
+              id: "capture",
+              title: "Capture",
+              kind: "action",
+              action: "screenshot",
+            },
+          ],
+        },
+      ],
+    };
+
+    const block = [
+      "TRY",
+      "    Doc Desktop Step    save    Save    ${EMPTY}    Send Unity Shortcut    CTRL+S",
+      "EXCEPT",
+      "    Doc Desktop Step    dismiss    Dismiss    ${EMPTY}    Send Unity Shortcut    ESC",
+      "FINALLY",
+      "    Doc Desktop Step    capture    Capture    ${EMPTY}    No Operation",
+      "END",
+    ];
+    expect(generateRobotSuiteFromScenario(scenario)).toContain(
+      block.map((line) => `        ${line}`).join("\n"),
+    );
+    expect(
+      generateRobotSuiteFromScenario(scenario, { controlFlow: "native" }),
+    ).toContain(
+      ["Run Scenario Steps", ...block.map((line) => `    ${line}`)].join("\n"),
+    );
+  });
+
+  it("generates a branch suite per parallel child and runs them together", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "parallel-example",
+      name: "Parallel Example",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      execution: { mode: "launch" },
+      steps: [
+        {
+          id: "sync",
+          title: "Sync",
+          kind: "control",
+          control: "parallel",
+          steps: [
+            {
+              id: "save",
+              title: "Save",
+              kind: "action",
+              action: "press_keys",
+              input: { shortcut: "CTRL+S" },
+            },
+            {
+              id: "capture",
+              title: "Capture",
+              kind: "action",
+              action: "screenshot",
+            },
+          ],
+        },
+      ],
+    };
+
+    const result = generateRobotSuite(scenario);
+    expect(result.suite).toContain(
+      "        Run Parallel Branches    ${CURDIR}${/}parallel-example--parallel-1-save.robot    ${CURDIR}${/}parallel-example--parallel-1-capture.robot",
+    );
+    expect(result.suite).not.toContain("Doc Desktop Step    save");
+    expect(
+      result.branchSuites.map(({ fileName, lane }) => [fileName, lane]),
+    ).toEqual([
+      ["parallel-example--parallel-1-save.robot", "save"],
+      ["parallel-example--parallel-1-capture.robot", "capture"],
+    ]);
+    const [save] = result.branchSuites;
+    expect(save.suite).toContain("Metadata    lane    save");
+    expect(save.suite).toContain("Parallel Example [save]");
+    expect(save.suite).toContain("${unity_mode}=    Set Variable    attach");
+    expect(save.suite).toContain(
+      "        Doc Desktop Step    save    Save    ${EMPTY}    Send Unity Shortcut    CTRL+S",
+    );
+
+    const native = generateRobotSuite(scenario, { controlFlow: "native" });
+    expect(native.suite).toContain(
+      "    Run Parallel Branches    ${CURDIR}${/}parallel-example--parallel-1-save.robot",
+    );
+    expect(native.branchSuites[1].suite).toContain(
+      "Run Scenario Steps\n    Doc Desktop Step    capture    Capture",
+    );
+  });
+
+  it("emits native Robot control flow blocks when control_flow is native", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "native-example",
+      name: "Native Example",
+      target: "web",
+      metadata: {},
+      variables: [],
+      execution: { control_flow: "native" },
+      steps: [
+        {
+          id: "each-tab",
+          title: "Each Tab",
+          kind: "control",
+          control: "for_each",
+          items_expression: "${tabs}",
+          item_variable: "tab",
+          steps: [
+            {
+              id: "open-tab",
+              title: "Open ${tab.name}",
+              kind: "action",
+              action: "click",
+              target: { strategy: "web", web: { css: "#${tab.id}" } },
+            },
+            {
+              id: "stop",
+              title: "Stop",
+              kind: "control",
+              control: "if",
+              branches: [
+                {
+                  when: '${tab.name} == "Settings" || ${tab_index} >= 3',
+                  steps: [
+                    {
+                      id: "leave",
+                      title: "Leave",
+                      kind: "control",
+                      control: "break",
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          id: "poll",
+          title: "Poll",
+          kind: "control",
+          control: "while",
+          expression: "${loop_index} < 2",
+          max_iterations: 5,
+          steps: [
+            {
+              id: "capture",
+              title: "Capture",
+              kind: "action",
+              action: "screenshot",
+            },
+          ],
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(
+      applyScenarioVariables(scenario, {
+        variables: {
+          tabs: [
+            { id: "home", name: "Home" },
+            { id: "settings", name: "Settings" },
+          ],
+        },
+      }),
+    );
+
+    expect(suite).toContain("    TRY\n        Run Scenario Steps\n    FINALLY");
+    expect(suite).toContain(
+      [
+        "Run Scenario Steps",
+        '    ${for_each_items_1}=    Evaluate    [{"id": "home", "name": "Home"}, {"id": "settings", "name": "Settings"}]',
+        "    FOR    ${tab_index}    ${tab}    IN ENUMERATE    @{for_each_items_1}",
+        "        ${item}=    Set Variable    ${tab}",
+        "        ${index}=    Set Variable    ${tab_index}",
+        "        Doc Web Click Step    open-tab-${tab_index}    Open ${tab}[name]    ${EMPTY}    css:#${tab}[id]",
+        '        IF    (($tab["name"]) == ("Settings")) or (($tab_index) >= (3))',
+        "            BREAK",
+        "        END",
+        "    END",
+        "    ${while_index_2}=    Set Variable    ${-1}",
+        "    ${loop_index}=    Set Variable    ${0}",
+        "    WHILE    ($loop_index) < (2)    limit=5    on_limit=pass",
+        "        ${while_index_2}=    Evaluate    $while_index_2 + 1",
+        "        ${loop_index}=    Set Variable    ${while_index_2}",
+        "        Doc Web Step    capture-${while_index_2}    Capture    ${EMPTY}    No Operation",
+        "    END",
+        "    IF    ($while_index_2) == (4) and (($loop_index) < (2))",
+        "        Log    loop_limit_reached: while loop poll reached max_iterations (5) and its condition is still true.    WARN",
+        "    END",
+      ].join("\n"),
+    );
+    const failing = generateRobotSuiteFromScenario(scenario, {
+      controlFlow: "native",
+      failOnLoopLimit: true,
+    });
+    expect(failing).toContain(
+      "    WHILE    ($loop_index) < (2)    limit=5    on_limit=fail    on_limit_message=while loop poll reached max_iterations (5) and its condition is still true.\n",
+    );
+    expect(failing).not.toContain("loop_limit_reached");
+  });
+
+  it("probes a native while target so the loop follows run-time state", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "dismiss-dialogs",
+      name: "Dismiss Dialogs",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      execution: { control_flow: "native" },
+      steps: [
+        {
+          id: "dismiss",
+          title: "Dismiss dialogs",
+          kind: "control",
+          control: "while",
+          expression: "${target_exists}",
+          max_iterations: 3,
+          target: { strategy: "web", web: { css: ".dialog" } },
+          steps: [
+            {
+              id: "skip",
+              title: "Skip",
+              kind: "control",
+              control: "if",
+              branches: [
+                {
+                  when: "${loop_index} == 0",
+                  steps: [
+                    {
+                      id: "next",
+                      title: "Next",
+                      kind: "control",
+                      control: "continue",
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              id: "close",
+              title: "Close",
+              kind: "action",
+              action: "click",
+              target: { strategy: "web", web: { css: ".dialog .close" } },
+            },
+          ],
+        },
+      ],
+    };
+
+    const probe =
+      "${target_exists}=    Run Keyword And Return Status    First Matching Candidate    Web Target Exists    css:.dialog";
+    expect(generateRobotSuiteFromScenario(scenario)).toContain(
+      [
+        "    ${loop_index}=    Set Variable    ${0}",
+        `    ${probe}`,
+        "    WHILE    $target_exists    limit=3    on_limit=pass",
+        "        ${while_index_1}=    Evaluate    $while_index_1 + 1",
+        "        ${loop_index}=    Set Variable    ${while_index_1}",
+        "        IF    ($loop_index) == (0)",
+        `            ${probe}`,
+        "            CONTINUE",
+        "        END",
+        "        Doc Web Click Step    close-${while_index_1}    Close    ${EMPTY}    css:.dialog .close",
+        `        ${probe}`,
+        "    END",
+      ].join("\n"),
+    );
+
+    expect(() =>
+      generateRobotSuiteFromScenario({
+        ...scenario,
+        execution: { control_flow: "unroll" },
+      }),
+    ).toThrow(
+      'while dismiss probes its target at run time; use control_flow "native".',
+    );
+  });
+
+  it("renders desktop scenarios with uia and coordinate targets", () => {
+    const suite = generateRobotSuiteFromScenario({
+      schema_version: "2.0.0",
+      scenario_id: "desktop-example",
+      name: "Desktop Example",
+      target: "desktop",
+      metadata: { target_window_hint: "Notepad" },
+      variables: [],
+      execution: { launch: { command: "notepad.exe" } },
+      steps: [
+        {
+          id: "open-file-menu",
+          title: "Open File menu",
+          kind: "action",
+          action: "click",
+          target: {
+            strategy: "uia",
+            uia: { title: "File", control_type: "MenuItem" },
+          },
+        },
+        {
+          id: "click-canvas",
+          title: "Click canvas",
+          kind: "action",
+          action: "double_click",
+          target: {
+            strategy: "coordinate",
+            coordinate: { x_ratio: 0.5, y_ratio: 0.25 },
+          },
+        },
+        {
+          id: "save",
+          title: "Save",
+          kind: "action",
+          action: "press_keys",
+          input: { shortcut: "CTRL+SHIFT+S" },
+        },
+      ],
+    });
+
+    expect(suite).toContain("Library    RPA.Windows");
+    expect(suite).not.toContain("UnityEditorLibrary");
+    expect(suite).toContain(
+      '    Set Suite Variable    ${desktop_window}    subname:"Notepad"',
+    );
+    expect(suite).toContain("        RPA.Windows.Windows Run    notepad.exe");
+    expect(suite).toContain(
+      "        Doc Desktop Step    open-file-menu    Open File menu    ${EMPTY}    Desktop Click Element And Emit    name:File and type:MenuItem    click    0",
+    );
+    expect(suite).toContain(
+      "        Doc Desktop Step    click-canvas    Click canvas    ${EMPTY}    Desktop Click Relative And Emit    0.5    0.25    double_click    0.8",
+    );
+    expect(suite).toContain(
+      "        Doc Desktop Step    save    Save    ${EMPTY}    RPA.Windows.Send Keys    keys={Ctrl}{Shift}s",
+    );
+  });
+
+  it("types desktop text with annotations, secrets by reference and literal braces escaped", () => {
+    const scenario = applyScenarioVariables(
+      normalizeScenario(
+        {
+          schema_version: "2.0.0",
+          scenario_id: "desktop-secret",
+          name: "Desktop Secret",
+          target: "desktop",
+          metadata: { target_window_hint: "Login" },
+          variables: [{ id: "pw", type: "secret", default: "hunter2" }],
+          steps: [
+            {
+              id: "type-pw",
+              title: "Type password",
+              kind: "action",
+              action: "type_text",
+              input: { text: "{${pw}}" },
+            },
+            {
+              id: "type-user",
+              title: "Type user",
+              kind: "action",
+              action: "type_text",
+              target: {
+                strategy: "uia",
+                uia: { automation_id: "User" },
+              },
+              input: { text: "admin" },
+            },
+          ],
+        },
+        "D:/tmp/desktop-secret.scenario.json",
+      ),
+    );
+
+    const { suite } = generateRobotSuite(scenario);
+
+    expect(suite).toContain(
+      "        Doc Desktop Step    type-pw    Type password    ${EMPTY}    Desktop Type Text And Emit    {{}%{SCENARIO_SECRET_PW}{}}    ••••",
+    );
+    expect(suite).toContain(
+      "        Doc Desktop Step    type-user    Type user    ${EMPTY}    Desktop Type Into Element And Emit    id:User    admin    admin",
+    );
+    expect(suite).toContain(
+      "    Emit Typed Text Annotations    ${label}    ${box}\n",
+    );
+    expect(suite).not.toContain("hunter2");
+  });
+
+  it("renders hybrid scenarios with a driver per step in one test case", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "hybrid-example",
+      name: "Hybrid Example",
+      target: "hybrid",
+      metadata: { start_url: "https://example.com/dashboard" },
+      variables: [],
+      steps: [
+        {
+          id: "open-dashboard",
+          title: "Open dashboard",
+          kind: "action",
+          action: "open_url",
+          input: { url: "https://example.com/dashboard" },
+        },
+        {
+          id: "select-cube",
+          title: "Select cube",
+          kind: "action",
+          action: "select_hierarchy",
+          target: {
+            strategy: "unity_hierarchy",
+            unity_hierarchy: { path: "Main/Cube" },
+          },
+        },
+        {
+          id: "save-scene",
+          title: "Save scene",
+          kind: "action",
+          action: "press_keys",
+          driver: "unity",
+          input: { shortcut: "CTRL+S" },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite.match(/\*\*\* Test Cases \*\*\*/g)).toHaveLength(1);
+    expect(suite).toContain("Library    SeleniumLibrary");
+    expect(suite).toContain(
+      "Library    robotframework_unity_editor.UnityEditorLibrary",
+    );
+    expect(suite).not.toContain("RPA.Windows");
+    expect(suite).toContain(
+      "        Doc Web Step    open-dashboard    Open dashboard    ${EMPTY}    Go To    https://example.com/dashboard",
+    );
+    expect(suite).toContain(
+      "Select Unity Hierarchy Object    hierarchy_path=Main/Cube",
+    );
+    expect(suite).toContain(
+      "        Doc Desktop Step    save-scene    Save scene    ${EMPTY}    Send Unity Shortcut    CTRL+S",
+    );
+    expect(suite).toContain(
+      "    FINALLY\n        Close All Browsers\n        IF    '${unity_mode}' == 'launch'",
+    );
+
+    const withoutDriver = structuredClone(scenario);
+    delete (withoutDriver.steps[2] as { driver?: string }).driver;
+    expect(() => generateRobotSuiteFromScenario(withoutDriver)).toThrow(
+      'Hybrid step "save-scene" requires driver',
+    );
+  });
+
+  it("renders web steps with the Browser library when web_driver is playwright", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "playwright-example",
+      name: "Playwright Example",
+      target: "web",
+      metadata: { start_url: "https://example.com", browser: "chrome" },
+      execution: { web_driver: "playwright" },
+      variables: [],
+      steps: [
+        {
+          id: "click-link",
+          title: "Click link",
+          kind: "action",
+          action: "click",
+          target: { strategy: "web", web: { css: "a.more" } },
+        },
+        {
+          id: "type-query",
+          title: "Type query",
+          kind: "action",
+          action: "type_text",
+          target: { strategy: "web", web: { css: "#q" } },
+          input: { text: "robot" },
+        },
+        {
+          id: "submit",
+          title: "Submit",
+          kind: "action",
+          action: "press_keys",
+          input: { shortcut: "CTRL+ENTER" },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain("Library    Browser");
+    expect(suite).not.toContain("SeleniumLibrary");
+    expect(suite).toContain(
+      "    New Browser    chromium    headless=${headless}",
+    );
+    expect(suite).toContain("sys.platform.startswith('linux')");
+    expect(suite).toContain("        Doc Web Click Step    click-link");
+    expect(suite).toContain("    css=a.more");
+    expect(suite).toContain(
+      "Doc Web Type Step    type-query    Type query    ${EMPTY}    css=#q    robot    robot",
+    );
+    expect(suite).toContain("    Fill Text    ${locator}    ${text}");
+    expect(suite).toContain("Keyboard Key    press    Control+Enter");
+    expect(suite).toContain(
+      "    ${bounding_box}=    Get BoundingBox    ${locator}",
+    );
+    expect(suite).toContain(
+      "    Set Suite Variable    ${screenshot_source}    page",
+    );
+    expect(suite).toContain("    FINALLY\n        Close Browser    ALL");
+
+    const headed = structuredClone(scenario);
+    headed.execution = { web_driver: "playwright", headless: false };
+    expect(generateRobotSuiteFromScenario(headed)).toContain(
+      "    ${headless}=    Set Variable    ${FALSE}",
+    );
+
+    const unknown = structuredClone(scenario);
+    unknown.execution = { web_driver: "cypress" };
+    expect(() => generateRobotSuiteFromScenario(unknown)).toThrow(
+      "Unsupported execution.web_driver: cypress",
+    );
+  });
+
+  it("renders select, hover, scroll, upload, checkbox, frame and window steps", () => {
+    const css = (selector: string) => ({
+      strategy: "web" as const,
+      web: { css: selector },
+    });
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "web-actions",
+      name: "Web Actions",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "pick-size",
+          title: "Pick size",
+          kind: "action",
+          action: "select_option",
+          target: css("#size"),
+          input: { label: "Large" },
+        },
+        {
+          id: "hover-help",
+          title: "Hover help",
+          kind: "action",
+          action: "hover",
+          target: css(".help"),
+        },
+        {
+          id: "scroll-footer",
+          title: "Scroll to footer",
+          kind: "action",
+          action: "scroll_to",
+          target: css("footer"),
+        },
+        {
+          id: "attach",
+          title: "Attach file",
+          kind: "action",
+          action: "upload_file",
+          target: css("input[type=file]"),
+          input: { path: "fixtures/report.pdf" },
+        },
+        {
+          id: "accept",
+          title: "Accept terms",
+          kind: "action",
+          action: "check",
+          target: css("#terms"),
+        },
+        {
+          id: "newsletter",
+          title: "No newsletter",
+          kind: "action",
+          action: "uncheck",
+          target: css("#newsletter"),
+        },
+        {
+          id: "editor",
+          title: "Enter editor frame",
+          kind: "action",
+          action: "switch_frame",
+          target: css("iframe.editor"),
+        },
+        {
+          id: "leave-editor",
+          title: "Leave editor frame",
+          kind: "action",
+          action: "switch_frame",
+        },
+        {
+          id: "popup",
+          title: "Switch to popup",
+          kind: "action",
+          action: "switch_window",
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain(
+      "        Doc Web Select Step    pick-size    Pick size    ${EMPTY}    css:#size    label    Large",
+    );
+    expect(suite).toContain(
+      "        Doc Web Hover Step    hover-help    Hover help    ${EMPTY}    css:.help",
+    );
+    expect(suite).toContain(
+      "        Doc Web Scroll Step    scroll-footer    Scroll to footer    ${EMPTY}    css:footer",
+    );
+    expect(suite).toContain(
+      "        Doc Web Upload Step    attach    Attach file    ${EMPTY}    css:input[type=file]    fixtures/report.pdf",
+    );
+    expect(suite).toContain(
+      "        Doc Web Check Step    accept    Accept terms    ${EMPTY}    css:#terms    ${TRUE}",
+    );
+    expect(suite).toContain(
+      "        Doc Web Check Step    newsletter    No newsletter    ${EMPTY}    css:#newsletter    ${FALSE}",
+    );
+    expect(suite).toContain(
+      "        Doc Web Frame Step    editor    Enter editor frame    ${EMPTY}    css:iframe.editor",
+    );
+    expect(suite).toContain(
+      "        Doc Web Step    leave-editor    Leave editor frame    ${EMPTY}    Unselect Frame",
+    );
+    expect(suite).toContain(
+      "        Doc Web Window Step    popup    Switch to popup    ${EMPTY}    NEW",
+    );
+    expect(suite).toContain(
+      "    ${annotation}=    Create Dictionary    type=label    text=${text}    box=${box_dict}",
+    );
+    expect(suite).toContain(
+      "    Mouse Over    ${locator}\n    ${box}=    Get Element Screen Box    ${locator}\n    Save Step Screenshot    ${id}\n    ${box_dict}=    Create Dictionary    x=${box}[0]    y=${box}[1]    width=${box}[2]    height=${box}[3]\n    ${annotation}=    Create Dictionary    type=highlight_box    box=${box_dict}",
+    );
+
+    const playwright = structuredClone(scenario);
+    playwright.execution = { web_driver: "playwright" };
+    expect(() => generateRobotSuiteFromScenario(playwright)).toThrow(
+      'Step "editor" switch_frame is not supported by the playwright web backend',
+    );
+    playwright.steps = playwright.steps.filter(
+      (step) => step.kind === "action" && step.action !== "switch_frame",
+    );
+    const browserSuite = generateRobotSuiteFromScenario(playwright);
+    expect(browserSuite).toContain(
+      "    Select Options By    ${locator}    ${by}    ${option}",
+    );
+    expect(browserSuite).toContain(
+      "    Upload File By Selector    ${locator}    ${path}",
+    );
+    expect(browserSuite).toContain(
+      "    ${main_page}=    New Page    ${start_url}",
+    );
+    expect(browserSuite).toContain(
+      "        Switch Page    ${main_page}[page_id]",
+    );
+
+    const missingOption = structuredClone(scenario);
+    missingOption.steps = [{ ...scenario.steps[0], input: {} }];
+    expect(() => generateRobotSuiteFromScenario(missingOption)).toThrow(
+      'Step "pick-size" select_option requires input.label, input.value or input.index.',
+    );
+  });
+
+  it("annotates typed text with the field box and a masked label for secrets", () => {
+    const web: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "typing",
+      name: "Typing",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "type-password",
+          title: "Type password",
+          kind: "action",
+          action: "type_text",
+          target: { strategy: "web", web: { css: "#password" } },
+          input: { text: "hunter2", secret: true },
+        },
+      ],
+    };
+    const webSuite = generateRobotSuiteFromScenario(web);
+    expect(webSuite).toContain(
+      "        Doc Web Type Step    type-password    Type password    ${EMPTY}    css:#password    hunter2    ••••    secret=${TRUE}",
+    );
+    expect(webSuite).toContain(
+      "    Emit Typed Text Annotations    ${label}    ${box_dict}",
+    );
+    expect(webSuite).toContain(
+      "    IF    ${secret}\n        Input Password    ${locator}    ${text}",
+    );
+    expect(webSuite).toContain(
+      "        ${text_label}=    Create Dictionary    type=label    text=${label}    box=${box}",
+    );
+
+    const unity: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "unity-typing",
+      name: "Unity Typing",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      steps: [
+        {
+          id: "rename",
+          title: "Rename",
+          kind: "action",
+          action: "type_text",
+          target: { strategy: "uia", uia: { automation_id: "NameField" } },
+          input: { text: "Player" },
+        },
+        {
+          id: "type-focused",
+          title: "Type into focused field",
+          kind: "action",
+          action: "type_text",
+          input: { text: "Enemy" },
+        },
+      ],
+    };
+    const unitySuite = generateRobotSuiteFromScenario(unity);
+    expect(unitySuite).toContain(
+      [
+        "        ${annotation}=    Click Unity Element    automation_id=NameField",
+        "        Type Unity Text    Player",
+        "        Wait For Seconds    0",
+        "        Save Step Screenshot    rename",
+        "        Emit Typed Text Annotations    Player    ${annotation}[box]",
+      ].join("\n"),
+    );
+    expect(unitySuite).toContain(
+      "        Doc Desktop Step    type-focused    Type into focused field    ${EMPTY}    Unity Type Text And Emit    Enemy    Enemy",
+    );
+  });
+
+  it("sets a step capture before steps with capture modes", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "capture-example",
+      name: "Capture Example",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "click-save",
+          title: "Click save",
+          kind: "action",
+          action: "click",
+          target: { strategy: "web", web: { css: "#save" } },
+          capture: { mode: "element", padding: 8 },
+        },
+        {
+          id: "check-toolbar",
+          title: "Check toolbar",
+          kind: "action",
+          action: "wait_for",
+          target: { strategy: "web", web: { css: "#save" } },
+          capture: {
+            mode: "element",
+            target: { strategy: "web", web: { css: ".toolbar" } },
+          },
+        },
+        {
+          id: "whole-page",
+          title: "Whole page",
+          kind: "action",
+          action: "screenshot",
+          capture: { mode: "full_page" },
+        },
+        {
+          id: "corner",
+          title: "Corner",
+          kind: "action",
+          action: "screenshot",
+          capture: {
+            mode: "region",
+            region: { x: 0, y: 0, width: 320, height: "200" },
+          },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain(
+      "        Set Step Capture    element    web    locator=css:#save    padding=8\n        Doc Web Click Step    click-save",
+    );
+    expect(suite).toContain(
+      "        Set Step Capture    element    web    locator=css:.toolbar\n",
+    );
+    expect(suite).toContain("        Set Step Capture    full_page    web\n");
+    expect(suite).toContain(
+      "        Set Step Capture    region    web    region=0,0,320,200\n",
+    );
+    expect(suite).toContain(
+      "            Capture Element Screenshot    ${capture}[locator]    ${image_path}",
+    );
+    expect(suite).toContain(
+      "    Set Suite Variable    ${step_capture}    ${NONE}",
+    );
+
+    const unity = structuredClone(scenario);
+    unity.target = "unity";
+    unity.steps = [
+      {
+        id: "menu",
+        title: "Menu",
+        kind: "action",
+        action: "open_menu",
+        input: { menu_path: "File/Save" },
+        capture: { mode: "element" },
+      },
+    ];
+    expect(() => generateRobotSuiteFromScenario(unity)).toThrow(
+      'capture.mode "element" requires a target: menu',
+    );
+
+    const invalid = structuredClone(scenario);
+    (invalid.steps[2] as { capture: Record<string, unknown> }).capture = {
+      mode: "window",
+    };
+    expect(() => generateRobotSuiteFromScenario(invalid)).toThrow(
+      'Unsupported capture.mode "window" in step: whole-page',
+    );
+  });
+
+  it("wraps steps with a retry policy in an attempt loop", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "retry-example",
+      name: "Retry Example",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "click-save",
+          title: "Click save",
+          kind: "action",
+          action: "click",
+          target: { strategy: "web", web: { css: "#save" } },
+          retry: {
+            attempts: 3,
+            interval_ms: 500,
+            on: ["*not visible*", "StaleElement*"],
+            capture_attempts: true,
+          },
+        },
+        {
+          id: "type-name",
+          title: "Type name",
+          kind: "action",
+          action: "type_text",
+          target: { strategy: "web", web: { css: "#name" } },
+          input: { text: "Ada" },
+          retry: { attempts: "2" },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain(
+      [
+        "        FOR    ${retry_attempt}    IN RANGE    1    4",
+        "            TRY",
+        "                Doc Web Click Step    click-save    Click save    ${EMPTY}    css:#save",
+        "                BREAK",
+        "            EXCEPT    *not visible*    StaleElement*    type=GLOB    AS    ${retry_error}",
+        "                Record Step Attempt Failure    click-save    ${retry_attempt}    ${retry_error}    3    500    ${TRUE}",
+        "            END",
+        "        END",
+      ].join("\n"),
+    );
+    expect(suite).toContain(
+      "            EXCEPT    AS    ${retry_error}\n                Record Step Attempt Failure    type-name    ${retry_attempt}    ${retry_error}    2    1000    ${FALSE}",
+    );
+    expect(suite).toContain("    Emit Step Attempts\n");
+
+    const invalid = structuredClone(scenario);
+    (invalid.steps[1] as { retry: Record<string, unknown> }).retry = {
+      attempts: 0,
+    };
+    expect(() => generateRobotSuiteFromScenario(invalid)).toThrow(
+      "retry.attempts must be a positive integer: type-name",
+    );
+  });
+
+  it("verifies expect postconditions after the action", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "expect-example",
+      name: "Expect Example",
+      target: "hybrid",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "save",
+          title: "Save",
+          kind: "action",
+          action: "click",
+          target: { strategy: "web", web: { css: "#save" } },
+          timing: { timeout_seconds: 5 },
+          expect: {
+            visible: { strategy: "web", web: { css: ".toast" } },
+            hidden: true,
+            text_contains: "Saved",
+            url_matches: "/documents/\\d+$",
+          },
+        },
+        {
+          id: "select-cube",
+          title: "Select cube",
+          kind: "action",
+          action: "select_hierarchy",
+          target: {
+            strategy: "unity_hierarchy",
+            unity_hierarchy: { path: "Main/Cube" },
+          },
+          expect: { selected_hierarchy: "Main/Cube" },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain(
+      [
+        "        Doc Web Click Step    save    Save    ${EMPTY}    css:#save",
+        "        Wait Until Element Is Visible    css:.toast    5s",
+        "        Step Expectation Passed    save    visible",
+        "        Wait Until Element Is Not Visible    css:#save    5s",
+        "        Step Expectation Passed    save    hidden",
+        "        Wait Until Page Contains    Saved    5s",
+        "        Step Expectation Passed    save    text_contains",
+        "        Wait Until Location Matches    /documents/\\\\d+$    5s",
+        "        Step Expectation Passed    save    url_matches",
+      ].join("\n"),
+    );
+    expect(suite).toContain(
+      "        Wait Until Keyword Succeeds    10s    0.5s    Unity Selected Hierarchy Should Be    Main/Cube\n        Step Expectation Passed    select-cube    selected_hierarchy",
+    );
+
+    const unsupported = structuredClone(scenario);
+    unsupported.steps[1] = {
+      ...unsupported.steps[1],
+      expect: { url_matches: "x" },
+    } as (typeof unsupported.steps)[number];
+    expect(() => generateRobotSuiteFromScenario(unsupported)).toThrow(
+      "Unsupported expect.url_matches for unity steps: select-cube",
+    );
+  });
+
+  it("rejects invalid retry, expect and capture settings with the step id", () => {
+    const build = (
+      step: Partial<ScenarioStepAction>,
+      target: AutomationScenario["target"] = "web",
+    ) =>
+      generateRobotSuiteFromScenario({
+        schema_version: "2.0.0",
+        scenario_id: "invalid-settings",
+        name: "Invalid Settings",
+        target,
+        metadata: {
+          start_url: "https://example.com",
+          target_window_hint: "Editor",
+        },
+        variables: [],
+        steps: [
+          {
+            id: "save",
+            title: "Save",
+            kind: "action",
+            action: "click",
+            target: { strategy: "web", web: { css: "#save" } },
+            ...step,
+          },
+        ],
+      });
+
+    expect(() => build({ retry: { attempts: 1.5 } })).toThrow(
+      "retry.attempts must be a positive integer: save",
+    );
+    expect(() => build({ retry: { attempts: "many" } })).toThrow(
+      "retry.attempts must be a number: save",
+    );
+    expect(() => build({ retry: { attempts: 2, interval_ms: -1 } })).toThrow(
+      "retry.interval_ms must not be negative: save",
+    );
+    expect(() => build({ retry: { attempts: 2, on: "Timeout*" } })).toThrow(
+      "retry.on must be a list of error patterns: save",
+    );
+    expect(() => build({ retry: { attempts: 2, on: [""] } })).toThrow(
+      "retry.on must be a list of error patterns: save",
+    );
+    expect(build({ retry: { attempts: 1 } })).not.toContain("retry_attempt");
+
+    expect(() =>
+      build({
+        action: "screenshot",
+        target: undefined,
+        expect: { hidden: true },
+      }),
+    ).toThrow("expect.hidden requires a target: save");
+    expect(() => build({ expect: { text_contains: " " } })).toThrow(
+      "expect.text_contains must be a non-empty string: save",
+    );
+    expect(
+      build({ expect: { visible: false, text_contains: "Saved" } }),
+    ).not.toContain("Step Expectation Passed    save    visible");
+
+    expect(() => build({ capture: { mode: "element", padding: -4 } })).toThrow(
+      "capture.padding must not be negative: save",
+    );
+    expect(() =>
+      build({ capture: { mode: "element", padding: "wide" } }),
+    ).toThrow("capture.padding must be a number: save");
+    expect(() => build({ capture: { mode: "region" } })).toThrow(
+      'capture.mode "region" requires capture.region: save',
+    );
+    expect(() =>
+      build({
+        capture: {
+          mode: "region",
+          region: { x: 0, y: 0, width: "wide", height: 10 },
+        },
+      }),
+    ).toThrow("capture.width must be a number: save");
+    expect(() =>
+      build(
+        {
+          target: { strategy: "uia", uia: { title: "Cube" } },
+          capture: { mode: "element" },
+        },
+        "unity",
+      ),
+    ).toThrow('capture.mode "element" is not supported for unity steps: save');
+    expect(
+      build(
+        {
+          target: { strategy: "uia", uia: { automation_id: "SaveButton" } },
+          capture: { mode: "element", padding: 4.4 },
+        },
+        "desktop",
+      ),
+    ).toContain(
+      "        Set Step Capture    element    desktop    locator=id:SaveButton    padding=4\n",
+    );
+  });
+
+  it("renders expect checks, captures and fallbacks for the playwright backend", () => {
+    const suite = generateRobotSuiteFromScenario({
+      schema_version: "2.0.0",
+      scenario_id: "playwright-checks",
+      name: "Playwright Checks",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      execution: { web_driver: "playwright" },
+      variables: [],
+      steps: [
+        {
+          id: "save",
+          title: "Save",
+          kind: "action",
+          action: "click",
+          target: {
+            strategy: "web",
+            web: { css: "#save" },
+            fallbacks: [{ strategy: "web", web: { test_id: "save" } }],
+          },
+          capture: { mode: "element" },
+          expect: { visible: { strategy: "web", web: { css: ".toast" } } },
+        },
+      ],
+    });
+
+    expect(suite).toContain(
+      "        Set Step Capture    element    web    locator=css=#save\n",
+    );
+    expect(suite).toContain(
+      "        ${target_candidate}=    Resolve Target Candidate    10s    Web Target Exists    css=#save    ",
+    );
+    expect(suite).toContain(
+      "        Wait For Elements State    css=.toast    visible    timeout=10s\n        Step Expectation Passed    save    visible",
+    );
+  });
+
   it("uses selector fallbacks when primary strategy is unsupported", () => {
     const scenario: AutomationScenario = {
       schema_version: "2.0.0",
@@ -219,6 +1518,153 @@ describe("scenario to robot", () => {
     expect(suite).toContain("css:a.more");
   });
 
+  it("builds locators for web selector kinds, scoping and runtime fallbacks", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "locator-example",
+      name: "Locator Example",
+      target: "web",
+      metadata: { start_url: "https://example.com" },
+      variables: [],
+      steps: [
+        {
+          id: "save",
+          title: "Save",
+          kind: "action",
+          action: "click",
+          target: {
+            strategy: "web",
+            web: {
+              role: "button",
+              name: "Save",
+              within: { strategy: "web", web: { css: ".dialog" } },
+              nth: 1,
+            },
+          },
+        },
+        {
+          id: "email",
+          title: "Email",
+          kind: "action",
+          action: "type_text",
+          target: {
+            strategy: "web",
+            web: { test_id: "email" },
+            fallbacks: [
+              { strategy: "web", web: { label: "Email" } },
+              { strategy: "web", web: { placeholder: "you@example.com" } },
+            ],
+          },
+          input: { text: "a@example.com" },
+        },
+      ],
+    };
+
+    const suite = generateRobotSuiteFromScenario(scenario);
+    expect(suite).toContain(
+      "        Doc Web Click Step    save    Save    ${EMPTY}    css:.dialog >> xpath:(.//*[(@role='button' or (not(@role) and (self::button or self::summary or self::input[@type='button' or @type='submit' or @type='reset' or @type='image']))) and (@aria-label='Save' or normalize-space(.)='Save' or (self::input and @value='Save'))])[2]",
+    );
+    expect(suite).toContain(
+      "        ${target_candidate}=    Resolve Target Candidate    10s    Web Target Exists    xpath://*[@data-testid='email']    xpath://*[(self::input or self::textarea or self::select) and (@id=//label[normalize-space(.)='Email']/@for or ancestor::label[contains(normalize-space(.), 'Email')] or @aria-label='Email')]    xpath://*[@placeholder='you@example.com']",
+    );
+    expect(suite).toContain(
+      "        ELSE\n            Doc Web Type Step    email    Email    ${EMPTY}    xpath://*[@placeholder='you@example.com']    a@example.com    a@example.com\n        END",
+    );
+    expect(suite).toContain(
+      "Get Element Screen Box\n    [Documentation]    SeleniumLibrary resolves the locator, including `within` chains joined by `>>`.\n    [Arguments]    ${locator}\n    ${element}=    Get WebElement    ${locator}\n    ${box}=    Execute JavaScript    const el = arguments[0];",
+    );
+    expect(suite).toMatch(/ARGUMENTS {4}\$\{element\}\n/);
+
+    const playwright = structuredClone(scenario);
+    playwright.execution = { web_driver: "playwright" };
+    expect(generateRobotSuiteFromScenario(playwright)).toContain(
+      "    css=.dialog >> xpath=.//*[(@role='button'",
+    );
+    expect(generateRobotSuiteFromScenario(playwright)).toMatch(
+      /\)\] >> nth=1\n/,
+    );
+  });
+
+  it("tries compatible target candidates in order at run time", () => {
+    const scenario: AutomationScenario = {
+      schema_version: "2.0.0",
+      scenario_id: "unity-target-fallbacks",
+      name: "Unity Target Fallbacks",
+      target: "unity",
+      metadata: {},
+      variables: [],
+      steps: [
+        {
+          id: "select-cube",
+          title: "Select cube",
+          kind: "action",
+          action: "click",
+          target: {
+            strategy: "uia",
+            uia: { title: "Cube", control_type: "TreeItem" },
+            fallbacks: [
+              { strategy: "web", web: { css: "#cube" } },
+              {
+                strategy: "coordinate",
+                coordinate: { x_ratio: 0.2, y_ratio: 0.3 },
+              },
+            ],
+          },
+        },
+        {
+          id: "single",
+          title: "Single candidate",
+          kind: "action",
+          action: "click",
+          target: {
+            strategy: "uia",
+            uia: { title: "Play" },
+            fallbacks: [{ strategy: "web", web: { css: "#play" } }],
+          },
+        },
+      ],
+    };
+
+    const { suite, warnings } = generateRobotSuite(scenario);
+    expect(warnings).toEqual([
+      {
+        code: "target_candidate_skipped",
+        stepId: "select-cube",
+        message:
+          'Step "select-cube" skips target candidate 2 of 3: unity steps cannot use the web strategy.',
+      },
+      {
+        code: "target_candidate_skipped",
+        stepId: "single",
+        message:
+          'Step "single" skips target candidate 2 of 2: unity steps cannot use the web strategy.',
+      },
+    ]);
+    expect(suite).toContain(
+      '        ${target_candidate}=    Resolve Target Candidate    10s    Unity Target Exists    uia:{"title":"Cube","control_type":"TreeItem"}    coordinate:0.2,0.3\n        IF    ${target_candidate} == 0\n            ${annotation}=    Click Unity Element    title=Cube    control_type=TreeItem\n',
+    );
+    expect(suite).toContain(
+      "        ELSE\n            Doc Desktop Step    select-cube    Select cube    ${EMPTY}    Unity Click Relative And Emit    0.2    0.3",
+    );
+    expect(suite).toContain(
+      "    ${annotation}=    Click Unity Element    title=Play\n",
+    );
+    expect(suite.match(/Resolve Target Candidate    10s/g)).toHaveLength(1);
+    expect(suite).toContain("    Emit Step Target\n");
+    expect(suite).toContain("Unity Target Exists\n    [Documentation]");
+
+    const broken = scenario.steps[0] as ScenarioStepAction;
+    broken.target = {
+      ...broken.target,
+      fallbacks: [{ strategy: "coordinate", coordinate: { x_ratio: 0.2 } }],
+    };
+    expect(() => generateRobotSuite(scenario)).toThrow("y_ratio");
+    broken.target = { ...broken.target, fallbacks: [{ uia: { title: "x" } }] };
+    expect(() => generateRobotSuite(scenario)).toThrow(
+      "target.strategy is required.",
+    );
+  });
+
   it("uses menu path candidates for unity open_menu steps", () => {
     const scenario: AutomationScenario = {
       schema_version: "2.0.0",
@@ -0,0 +1,428 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { loadScenarioFile } from "../src/scenarioSpec.js";
+import {
+  formatDiagnostics,
+  validateScenarioCommand,
+} from "../src/scenarioValidation.js";
+
+async function writeScenario(content: unknown): Promise<string> {
+  return writeScenarioText(JSON.stringify(content, null, 2));
+}
+
+async function writeScenarioText(text: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "scenario-validate-"));
+  const path = join(dir, "example.scenario.json");
+  await writeFile(path, text, "utf8");
+  return path;
+}
+
+describe("validate command", () => {
+  it("reports every problem with a json pointer path and code", async () => {
+    const scenarioPath = await writeScenario({
+      schema_version: "2.0.0",
+      scenario_id: "broken",
+      name: "Broken",
+      target: "web",
+      steps: [
+        { id: "open", title: "Open", kind: "action", action: "open_url" },
+        {
+          id: "branch",
+          title: "Branch",
+          kind: "control",
+          control: "if",
+          branches: [
+            {
+              when: "true",
+              steps: [
+                { id: "ok", title: "Ok", kind: "action", action: "wait_for" },
+                { id: "open", title: " ", kind: "action", action: "click" },
+              ],
+            },
+          ],
+        },
+        {
+          id: "loop",
+          title: "Loop",
+          kind: "control",
+          control: "for_each",
+          items_expression: "a,b",
+          steps: [],
+        },
+      ],
+    });
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toMatchObject([
+      {
+        path: "/steps/1/branches/0/steps/1/id",
+        severity: "warning",
+        code: "duplicate_step_id",
+        message: "step.id is already used at /steps/0: open",
+        stepPath: "/steps/1/branches/0/steps/1",
+        stepId: "open",
+      },
+      {
+        path: "/steps/1/branches/0/steps/1/title",
+        severity: "error",
+        code: "missing_step_title",
+        message: "step.title is required: open",
+        stepPath: "/steps/1/branches/0/steps/1",
+        stepId: "open",
+      },
+      {
+        path: "/steps/2/item_variable",
+        severity: "error",
+        code: "for_each_missing_item_variable",
+        message: "for_each requires item_variable: loop",
+        stepPath: "/steps/2",
+        stepId: "loop",
+      },
+    ]);
+    expect(result).toMatchObject({ errors: 2, warnings: 1 });
+  });
+
+  it("reports robot generation failures for structurally valid scenarios", async () => {
+    const scenarioPath = await writeScenario({
+      schema_version: "2.0.0",
+      scenario_id: "missing-url",
+      name: "Missing URL",
+      target: "web",
+      steps: [
+        { id: "open", title: "Open", kind: "action", action: "open_url" },
+      ],
+    });
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.diagnostics).toEqual([
+      {
+        path: "",
+        severity: "error",
+        code: "generation_failed",
+        message: 'Step "open" requires input.url.',
+      },
+    ]);
+  });
+
+  it("stays valid when only warnings are reported", async () => {
+    const scenarioPath = await writeScenario({
+      schema_version: "2.0.0",
+      scenario_id: "warnings-only",
+      name: "Warnings Only",
+      target: "web",
+      steps: [
+        {
+          id: "wait",
+          title: "Wait",
+          kind: "action",
+          action: "wait_for",
+          input: { seconds: 1 },
+        },
+        {
+          id: "wait",
+          title: "Wait again",
+          kind: "action",
+          action: "wait_for",
+          input: { seconds: 1 },
+        },
+      ],
+    });
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.valid).toBe(true);
+    expect(formatDiagnostics(result, "text")).toContain(
+      "/steps/1/id  warning  step.id is already used at /steps/0: wait  (duplicate_step_id)",
+    );
+    expect(JSON.parse(formatDiagnostics(result, "json"))).toMatchObject({
+      valid: true,
+      warnings: 1,
+    });
+  });
+
+  it("warns about while loops truncated at max_iterations", async () => {
+    const scenarioPath = await writeScenario({
+      schema_version: "2.0.0",
+      scenario_id: "endless",
+      name: "Endless",
+      target: "web",
+      steps: [
+        {
+          id: "poll",
+          title: "Poll",
+          kind: "control",
+          control: "while",
+          expression: "true",
+          max_iterations: 3,
+          steps: [
+            {
+              id: "wait",
+              title: "Wait",
+              kind: "action",
+              action: "wait_for",
+              input: { seconds: 1 },
+            },
+          ],
+        },
+      ],
+    });
+
+    const result = await validateScenarioCommand({ scenarioPath });
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toMatchObject([
+      {
+        path: "/steps/0",
+        severity: "warning",
+        code: "loop_limit_reached",
+        stepId: "poll",
+        line: 7,
+      },
+    ]);
+
+    const strict = await validateScenarioCommand({
+      scenarioPath,
+      failOnLoopLimit: true,
+    });
+    expect(strict.valid).toBe(false);
+    expect(strict.diagnostics[0]).toMatchObject({
+      code: "generation_failed",
+      message:
+        "while loop poll reached max_iterations (3) and its condition is still true; the body was unrolled 3 times.",
+    });
+  });
+
+  it("reports schema violations with file line and column", async () => {
+    const scenarioPath = await writeScenarioText(
+      [
+        "{",
+        '  "schema_version": "2.0.0",',
+        '  "name": "Typos",',
+        '  "target": "browser",',
+        '  "steps": [',
+        "    {",
+        '      "id": "wait",',
+        '      "title": "Wait",',
+        '      "action": "wait_for",',
+        '      "inputs": { "seconds": 1 }',
+        "    }",
+        "  ]",
+        "}",
+      ].join("\n"),
+    );
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.diagnostics).toEqual([
+      {
+        path: "/target",
+        severity: "error",
+        code: "invalid_enum",
+        message: 'must be one of: "unity", "web", "desktop", "hybrid"',
+        line: 4,
+        column: 3,
+      },
+      {
+        path: "/steps/0/inputs",
+        severity: "error",
+        code: "unknown_key",
+        message: 'unknown key "inputs"',
+        line: 10,
+        column: 7,
+      },
+      {
+        path: "",
+        severity: "error",
+        code: "invalid_scenario",
+        message: "Unsupported target: browser",
+      },
+    ]);
+    expect(formatDiagnostics(result, "text")).toContain(
+      '  10:7  /steps/0/inputs  error  unknown key "inputs"  (unknown_key)',
+    );
+  });
+
+  it("reports malformed JSON with its position", async () => {
+    const scenarioPath = await writeScenarioText('{\n  "name": "x",\n}');
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ code: "parse_failed" });
+    expect(result.diagnostics[0].message).toContain(
+      "example.scenario.json:3:1",
+    );
+  });
+
+  it("locates issues in included steps in the file that declares them", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-validate-"));
+    await writeFile(
+      join(dir, "login.steps.json"),
+      JSON.stringify(
+        {
+          schema_version: "2.0.0",
+          name: "Login",
+          target: "web",
+          steps: [
+            {
+              id: "open",
+              title: "Open",
+              action: "open_url",
+              input: { url: "https://example.com" },
+            },
+            { id: "submit", title: "", action: "click" },
+          ],
+        },
+        null,
+        2,
+      ),
+      "utf8",
+    );
+    const scenarioPath = join(dir, "example.scenario.json");
+    await writeFile(
+      scenarioPath,
+      JSON.stringify(
+        {
+          schema_version: "2.0.0",
+          name: "Example",
+          target: "web",
+          steps: [
+            { id: "wait", title: "Wait", action: "wait_for" },
+            { id: "login", kind: "include", from: "login.steps.json" },
+          ],
+        },
+        null,
+        2,
+      ),
+      "utf8",
+    );
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "schema_violation",
+        path: "/steps/1/title",
+        file: join(dir, "login.steps.json"),
+        includePath: "/steps/1",
+      }),
+      expect.objectContaining({
+        code: "missing_step_title",
+        path: "/steps/1/title",
+        stepPath: "/steps/1",
+        stepId: "login-submit",
+        file: join(dir, "login.steps.json"),
+        includePath: "/steps/1",
+        line: 16,
+        column: 7,
+      }),
+    ]);
+    expect(formatDiagnostics(result, "text")).toContain(
+      "  login.steps.json:16:7  /steps/1/title  error",
+    );
+    expect(formatDiagnostics(result, "text")).toContain(
+      "(missing_step_title)  included by /steps/1",
+    );
+  });
+
+  it("checks included files against the schema", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-validate-"));
+    await writeFile(
+      join(dir, "wait.steps.yaml"),
+      [
+        "schema_version: 2.0.0",
+        "name: Wait",
+        "target: web",
+        "steps:",
+        "  - id: wait",
+        "    title: Wait",
+        "    action: wait_for",
+        "    tiemout: 5",
+      ].join("\n"),
+      "utf8",
+    );
+    const scenarioPath = join(dir, "example.scenario.json");
+    await writeFile(
+      scenarioPath,
+      JSON.stringify({
+        schema_version: "2.0.0",
+        name: "Example",
+        target: "web",
+        steps: [{ id: "pause", kind: "include", from: "wait.steps.yaml" }],
+      }),
+      "utf8",
+    );
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "unknown_key",
+        path: "/steps/0/tiemout",
+        file: join(dir, "wait.steps.yaml"),
+        includePath: "/steps/0",
+        line: 8,
+        column: 5,
+      }),
+    ]);
+    await expect(loadScenarioFile(scenarioPath)).rejects.toThrow(
+      'wait.steps.yaml:8:5 /steps/0/tiemout: unknown key "tiemout"',
+    );
+  });
+
+  it("reports unreadable scenario files as diagnostics", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "scenario-validate-"));
+    const scenarioPath = join(dir, "missing.scenario.json");
+
+    const result = await validateScenarioCommand({ scenarioPath });
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({
+      path: "",
+      code: "read_failed",
+    });
+    expect(result.diagnostics[0].message).toContain("ENOENT");
+  });
+
+  it("reports unreadable and malformed variable files as diagnostics", async () => {
+    const scenarioPath = await writeScenario({
+      schema_version: 2,
+      id: "vars",
+      title: "Vars",
+      steps: [],
+    });
+    const dir = await mkdtemp(join(tmpdir(), "scenario-validate-"));
+    const varsPath = join(dir, "vars.json");
+    await writeFile(varsPath, "[1, 2]", "utf8");
+
+    const missing = await validateScenarioCommand({
+      scenarioPath,
+      envFile: join(dir, "missing.env"),
+    });
+    const malformed = await validateScenarioCommand({
+      scenarioPath,
+      variablesFile: varsPath,
+    });
+
+    expect(missing.valid).toBe(false);
+    expect(missing.diagnostics).toEqual([
+      expect.objectContaining({ path: "", code: "read_failed" }),
+    ]);
+    expect(malformed.valid).toBe(false);
+    expect(malformed.diagnostics).toEqual([
+      expect.objectContaining({
+        path: "",
+        code: "parse_failed",
+        message: `Variables file must contain an object: ${varsPath}`,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildSelectorReport,
+  formatSelectorReport,
+  selectorReportCommand,
+} from "../src/selectorReport.js";
+import type { RunArtifacts, StepArtifact } from "../src/types.js";
+
+const run = (steps: StepArtifact[]): RunArtifacts => ({
+  scenarioId: "checkout",
+  title: "Checkout",
+  steps,
+});
+
+const step = (id: string, extra: Partial<StepArtifact> = {}): StepArtifact => ({
+  id,
+  title: id,
+  imagePath: `${id}.png`,
+  ...extra,
+});
+
+describe("selector report", () => {
+  it("aggregates matched candidates, waits and retries across runs", () => {
+    const email = (candidate: number, waitMs: number) =>
+      step("email", {
+        target: {
+          candidate,
+          candidates: 3,
+          value: candidate === 0 ? "css:#email" : "xpath://*[@name='email']",
+          waitMs,
+        },
+      });
+    const report = buildSelectorReport([
+      {
+        artifactDir: "/runs/1",
+        artifacts: run([
+          email(1, 400),
+          step("save", {
+            target: {
+              candidate: 0,
+              candidates: 2,
+              value: "id:save",
+              waitMs: 20,
+            },
+            retry: { attempts: 3, failures: [] },
+          }),
+          step("plain"),
+        ]),
+      },
+      {
+        artifactDir: "/runs/2",
+        artifacts: run([
+          email(1, 200),
+          step("save", {
+            target: {
+              candidate: 0,
+              candidates: 2,
+              value: "id:save",
+              waitMs: 40,
+            },
+          }),
+        ]),
+      },
+    ]);
+
+    expect(report.flagged).toBe(1);
+    expect(report.steps).toEqual([
+      {
+        scenarioId: "checkout",
+        stepId: "email",
+        title: "email",
+        occurrences: 2,
+        matches: [
+          { candidate: 1, value: "xpath://*[@name='email']", count: 2 },
+        ],
+        candidates: 3,
+        waitMs: { average: 300, max: 400 },
+        retries: 0,
+        retriedOccurrences: 0,
+        fallsThrough: true,
+      },
+      {
+        scenarioId: "checkout",
+        stepId: "save",
+        title: "save",
+        occurrences: 2,
+        matches: [{ candidate: 0, value: "id:save", count: 2 }],
+        candidates: 2,
+        waitMs: { average: 30, max: 40 },
+        retries: 2,
+        retriedOccurrences: 1,
+        fallsThrough: false,
+      },
+    ]);
+
+    const text = formatSelectorReport(report, "text");
+    expect(text).toContain(
+      "    candidate 2/3  2/2  xpath://*[@name='email']\n    wait  avg 300 ms  max 400 ms\n    warning  primary selector never matched\n",
+    );
+    expect(text).toContain("    retries  2 in 1/2\n");
+    expect(text).toContain("1 selector(s) always fell through\n");
+  });
+
+  it("reads steps.json from several artifact directories", async () => {
+    const root = await mkdtemp(join(tmpdir(), "selector-report-"));
+    const writeRun = async (name: string, steps: StepArtifact[]) => {
+      const dir = join(root, name);
+      await mkdir(dir);
+      await writeFile(join(dir, "steps.json"), JSON.stringify(run(steps)));
+      return dir;
+    };
+    const login = (candidate: number) =>
+      step("login", {
+        target: {
+          candidate,
+          candidates: 2,
+          value: candidate === 0 ? "css:#login" : "text=Log in",
+          waitMs: 100 * (candidate + 1),
+        },
+      });
+    const dirs = [
+      await writeRun("1", [login(1)]),
+      await writeRun("2", [login(0)]),
+      await writeRun("3", [login(1), step("plain")]),
+    ];
+
+    const report = await selectorReportCommand({ artifactDirs: dirs });
+
+    expect(report.runs).toEqual(
+      dirs.map((artifactDir) => ({ artifactDir, scenarioId: "checkout" })),
+    );
+    expect(report.flagged).toBe(0);
+    expect(report.steps).toHaveLength(1);
+    expect(report.steps[0]).toMatchObject({
+      occurrences: 3,
+      matches: [
+        { candidate: 0, value: "css:#login", count: 1 },
+        { candidate: 1, value: "text=Log in", count: 2 },
+      ],
+      waitMs: { average: 167, max: 200 },
+      fallsThrough: false,
+    });
+    expect(formatSelectorReport(report, "text")).toContain(
+      "    candidate 1/2  1/3  css:#login\n    candidate 2/2  2/3  text=Log in\n",
+    );
+
+    const json = formatSelectorReport(report, "json");
+    expect(json.endsWith("}\n")).toBe(true);
+    expect(JSON.parse(json)).toEqual(report);
+  });
+
+  it("rejects missing, corrupt and malformed artifact files", async () => {
+    const root = await mkdtemp(join(tmpdir(), "selector-report-"));
+    const corrupt = join(root, "corrupt");
+    const malformed = join(root, "malformed");
+    await mkdir(corrupt);
+    await mkdir(malformed);
+    await writeFile(join(corrupt, "steps.json"), "{");
+    await writeFile(join(malformed, "steps.json"), '{"scenarioId": "x"}');
+
+    await expect(selectorReportCommand({ artifactDirs: [] })).rejects.toThrow(
+      "At least one artifact directory is required",
+    );
+    await expect(
+      selectorReportCommand({ artifactDirs: [join(root, "missing")] }),
+    ).rejects.toThrow(
+      `No steps.json in artifact directory: ${join(root, "missing")}`,
+    );
+    await expect(
+      selectorReportCommand({ artifactDirs: [corrupt] }),
+    ).rejects.toThrow(`Invalid steps.json in artifact directory: ${corrupt} (`);
+    await expect(
+      selectorReportCommand({ artifactDirs: [malformed] }),
+    ).rejects.toThrow(
+      `Invalid steps.json in artifact directory: ${malformed} (steps must be an array)`,
+    );
+  });
+
+  it("reports an empty summary when no step recorded a match or retry", () => {
+    const report = buildSelectorReport([
+      { artifactDir: "/runs/1", artifacts: run([step("plain")]) },
+    ]);
+
+    expect(report).toEqual({
+      runs: [{ artifactDir: "/runs/1", scenarioId: "checkout" }],
+      steps: [],
+      flagged: 0,
+    });
+    expect(formatSelectorReport(report, "text")).toBe(
+      "Selector report (1 run(s))\n0 selector(s) always fell through\n",
+    );
+  });
+});